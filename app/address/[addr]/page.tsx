@@ -0,0 +1,395 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { NumericFormat } from "react-number-format";
+import {
+  useHyperliquidConnection,
+  useHyperliquidSubscriptions,
+} from "@/hooks/useHyperliquidChannel";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
+import { GlobalSearch } from "@/components/GlobalSearch";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { formatCompactUsd, formatHash, formatTime } from "@/libs/format";
+import { isAddress, searchHref, tradeHref } from "@/libs/search";
+import { tradeNotional } from "@/libs/trades";
+import {
+  fillKey,
+  mergeFills,
+  mergeFundings,
+  summarizeAccount,
+  type FeeTotals,
+} from "@/libs/userFills";
+import type {
+  HyperliquidFill,
+  HyperliquidUserFunding,
+  HyperliquidWebSocketMessage,
+} from "@/types/hyperliquid";
+
+// Sign goes before the dollar sign ("-$12.00", "+$3.50")
+function Usd({ value, signed = false }: { value: number; signed?: boolean }) {
+  const sign = value < 0 ? "-" : signed && value > 0 ? "+" : "";
+  return (
+    <span
+      className={
+        signed && value !== 0
+          ? value > 0
+            ? "text-green-400"
+            : "text-red-400"
+          : undefined
+      }
+    >
+      <NumericFormat
+        value={Math.abs(value)}
+        displayType="text"
+        prefix={`${sign}$`}
+        thousandSeparator=","
+        decimalScale={2}
+        fixedDecimalScale
+      />
+    </span>
+  );
+}
+
+// USDC fees in dollars, fees paid in other tokens listed in that token
+function Fees({ fees }: { fees: FeeTotals }) {
+  const { USDC = 0, ...others } = fees;
+  return (
+    <>
+      <Usd value={USDC} />
+      {Object.entries(others).map(([token, value]) => (
+        <span key={token} className="ml-2 text-xs text-zinc-400">
+          +
+          <NumericFormat
+            value={value}
+            displayType="text"
+            thousandSeparator=","
+            decimalScale={4}
+            suffix={` ${token}`}
+          />
+        </span>
+      ))}
+    </>
+  );
+}
+
+function StatCard({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="bg-zinc-900 rounded-lg border border-zinc-800 px-4 py-3">
+      <div
+        className="text-xs text-zinc-400"
+        style={{ fontFamily: "var(--font-quantico)" }}
+      >
+        {label}
+      </div>
+      <div className="mt-1 text-lg font-mono font-semibold">{children}</div>
+    </div>
+  );
+}
+
+function SectionTitle({ children }: { children: React.ReactNode }) {
+  return (
+    <h2
+      className="mb-3 text-sm font-semibold text-zinc-300"
+      style={{ fontFamily: "var(--font-quantico)" }}
+    >
+      {children}
+    </h2>
+  );
+}
+
+function FillsTable({
+  fills,
+  emptyMessage,
+}: {
+  fills: HyperliquidFill[];
+  emptyMessage: string;
+}) {
+  return (
+    <div className="bg-zinc-900 rounded-lg border border-zinc-800 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-[#4EB345]/10">
+            <tr className="text-sm font-semibold text-zinc-300">
+              <th className="px-4 py-2 text-left">Time</th>
+              <th className="px-4 py-2 text-left">Coin</th>
+              <th className="px-4 py-2 text-left">Direction</th>
+              <th className="px-4 py-2 text-right">Price</th>
+              <th className="px-4 py-2 text-right">Size</th>
+              <th className="px-4 py-2 text-right">Value</th>
+              <th className="px-4 py-2 text-right">Closed PnL</th>
+              <th className="px-4 py-2 text-right">Fee</th>
+              <th className="px-4 py-2 text-left">Hash</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fills.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={9}
+                  className="px-6 py-12 text-center text-zinc-500"
+                >
+                  {emptyMessage}
+                </td>
+              </tr>
+            ) : (
+              fills.map((fill, index) => (
+                <tr
+                  key={fillKey(fill)}
+                  className={`border-t border-zinc-800 hover:bg-zinc-800/30 transition-colors ${
+                    index % 2 === 0 ? "bg-zinc-900/50" : "bg-zinc-950/50"
+                  }`}
+                >
+                  <td className="px-4 py-2 text-sm font-mono">
+                    {formatTime(fill.time)}
+                  </td>
+                  <td className="px-4 py-2 text-sm font-semibold">
+                    <Link
+                      href={searchHref("coin", fill.coin)}
+                      className="hover:text-[#4EB345] transition-colors"
+                    >
+                      {fill.coin}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`px-2 py-0.5 rounded text-xs font-medium ${
+                        fill.side === "B"
+                          ? "bg-green-500/20 text-green-400"
+                          : "bg-red-500/20 text-red-400"
+                      }`}
+                    >
+                      {fill.dir || (fill.side === "B" ? "Buy" : "Sell")}
+                    </span>
+                  </td>
+                  {/* Price and size as received, without float rounding */}
+                  <td className="px-4 py-2 text-sm text-right font-mono">
+                    ${fill.px}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right font-mono">
+                    {fill.sz}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right font-mono text-zinc-300">
+                    {formatCompactUsd(tradeNotional(fill))}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right font-mono">
+                    <Usd value={parseFloat(fill.closedPnl)} signed />
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right font-mono text-zinc-400">
+                    {fill.fee} {fill.feeToken}
+                  </td>
+                  <td className="px-4 py-2 text-sm font-mono text-zinc-400">
+                    <Link
+                      href={tradeHref(fill)}
+                      className="hover:text-[#4EB345] transition-colors"
+                    >
+                      {fill.hash ? formatHash(fill.hash) : `TID: ${fill.tid}`}
+                    </Link>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// Keyed by address so navigating between wallets starts from a clean slate
+function AddressActivity({ address }: { address: string }) {
+  const [fills, setFills] = useState<HyperliquidFill[]>([]);
+  const [fundings, setFundings] = useState<HyperliquidUserFunding[]>([]);
+  const [hasSnapshot, setHasSnapshot] = useState(false);
+
+  const subscriptions = useMemo(
+    () => [
+      { type: "userFills", user: address },
+      { type: "userFundings", user: address },
+    ],
+    [address]
+  );
+
+  useHyperliquidSubscriptions(
+    subscriptions,
+    (message: HyperliquidWebSocketMessage) => {
+      if (message.channel === "userFills") {
+        if (message.data.user.toLowerCase() !== address) return;
+        if (message.data.isSnapshot) setHasSnapshot(true);
+        setFills((prev) => mergeFills(prev, message.data.fills));
+      } else if (message.channel === "userFundings") {
+        if (message.data.user.toLowerCase() !== address) return;
+        setFundings((prev) => mergeFundings(prev, message.data.fundings));
+      }
+    }
+  );
+
+  const summary = useMemo(
+    () => summarizeAccount(address, fills, fundings),
+    [address, fills, fundings]
+  );
+
+  return (
+    <>
+      <div className="mb-6 grid grid-cols-2 gap-3 md:grid-cols-5">
+        <StatCard label="Realized PnL">
+          <Usd value={summary.realizedPnl} signed />
+        </StatCard>
+        <StatCard label="Fees paid">
+          <Fees fees={summary.fees} />
+        </StatCard>
+        <StatCard label="Funding">
+          <Usd value={summary.funding} signed />
+        </StatCard>
+        <StatCard label="Volume">{formatCompactUsd(summary.volume)}</StatCard>
+        <StatCard label="Fills">
+          {summary.fills}
+          {summary.liquidations > 0 && (
+            <span className="ml-2 text-xs text-red-400">
+              {summary.liquidations} liquidation
+              {summary.liquidations === 1 ? "" : "s"}
+            </span>
+          )}
+        </StatCard>
+      </div>
+      <p className="mb-6 text-xs text-zinc-500">
+        {hasSnapshot
+          ? "Totals cover the recent fills replayed on subscribe plus live fills since. Funding covers the recent payments replayed on subscribe plus new ones."
+          : "Waiting for the fill snapshot..."}
+      </p>
+
+      <div className="mb-8">
+        <SectionTitle>Volume by coin</SectionTitle>
+        <div className="bg-zinc-900 rounded-lg border border-zinc-800 overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-[#4EB345]/10">
+              <tr className="text-sm font-semibold text-zinc-300">
+                <th className="px-4 py-2 text-left">Coin</th>
+                <th className="px-4 py-2 text-right">Fills</th>
+                <th className="px-4 py-2 text-right">Volume</th>
+                <th className="px-4 py-2 text-right">Realized PnL</th>
+                <th className="px-4 py-2 text-right">Fees</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.coins.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={5}
+                    className="px-6 py-8 text-center text-zinc-500"
+                  >
+                    No trades yet.
+                  </td>
+                </tr>
+              ) : (
+                summary.coins.map((activity) => (
+                  <tr
+                    key={activity.coin}
+                    className="border-t border-zinc-800 text-sm font-mono"
+                  >
+                    <td className="px-4 py-2 font-semibold">
+                      <Link
+                        href={searchHref("coin", activity.coin)}
+                        className="hover:text-[#4EB345] transition-colors"
+                      >
+                        {activity.coin}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-right">{activity.fills}</td>
+                    <td className="px-4 py-2 text-right">
+                      <Usd value={activity.volume} />
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <Usd value={activity.realizedPnl} signed />
+                    </td>
+                    <td className="px-4 py-2 text-right text-zinc-400">
+                      <Fees fees={activity.fees} />
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <SectionTitle>Live fills</SectionTitle>
+      <FillsTable
+        fills={fills}
+        emptyMessage={
+          hasSnapshot
+            ? "No fills for this address yet."
+            : "Waiting for fills..."
+        }
+      />
+    </>
+  );
+}
+
+export default function AddressPage() {
+  const params = useParams<{ addr: string }>();
+  const param = decodeURIComponent(params.addr);
+  const address = isAddress(param) ? param.toLowerCase() : null;
+  const { connectionState, latency, reconnect, network } =
+    useHyperliquidConnection();
+
+  return (
+    <div className="min-h-screen bg-black text-white relative">
+      {/* Animated background pattern */}
+      <div className="neon-bg"></div>
+
+      <div className="container mx-auto px-4 py-8 max-w-7xl relative z-10">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <Link
+              href="/"
+              className="text-xs text-zinc-500 hover:text-[#4EB345] transition-colors"
+            >
+              ← Explorer
+            </Link>
+            <h1
+              className="text-2xl font-bold mt-1"
+              style={{ fontFamily: "var(--font-quantico)" }}
+            >
+              ADDRESS{" "}
+              <span className="text-[#4EB345] neon-glow-green font-mono">
+                {address ? formatHash(address) : param}
+              </span>
+            </h1>
+            {address && (
+              <p className="mt-1 text-xs font-mono text-zinc-500 break-all">
+                {address}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <NetworkSelector />
+            <GlobalSearch />
+            <ConnectionStatus
+              connectionState={connectionState}
+              latency={latency}
+              label={network.label}
+              onReconnect={reconnect}
+            />
+          </div>
+        </div>
+
+        {address ? (
+          <AddressActivity key={address} address={address} />
+        ) : (
+          <div className="bg-zinc-900 rounded-lg border border-zinc-800 px-6 py-12 text-center text-red-400">
+            &quot;{param}&quot; is not a wallet address.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { NumericFormat } from "react-number-format";
+import { useHyperliquidConnection } from "@/hooks/useHyperliquidChannel";
+import { useBlock } from "@/hooks/useBlocks";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
+import { GlobalSearch } from "@/components/GlobalSearch";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { DetailField } from "@/components/DetailField";
+import { isNotFoundError } from "@/libs/api";
+import { formatDateTime } from "@/libs/format";
+
+export default function BlockPage() {
+  const params = useParams<{ height: string }>();
+  const height = /^\d+$/.test(params.height) ? Number(params.height) : null;
+  const { connectionState, latency, reconnect, network } =
+    useHyperliquidConnection();
+  const { data: block, isLoading, error } = useBlock(height);
+
+  return (
+    <div className="min-h-screen bg-black text-white relative">
+      {/* Animated background pattern */}
+      <div className="neon-bg"></div>
+
+      <div className="container mx-auto px-4 py-8 max-w-7xl relative z-10">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <Link
+              href="/"
+              className="text-xs text-zinc-500 hover:text-[#4EB345] transition-colors"
+            >
+              ← Explorer
+            </Link>
+            <h1
+              className="text-2xl font-bold mt-1"
+              style={{ fontFamily: "var(--font-quantico)" }}
+            >
+              BLOCK{" "}
+              <span className="text-[#4EB345] neon-glow-green">
+                {height ?? params.height}
+              </span>
+            </h1>
+          </div>
+          <div className="flex items-center gap-3">
+            <NetworkSelector />
+            <GlobalSearch />
+            <ConnectionStatus
+              connectionState={connectionState}
+              latency={latency}
+              label={network.label}
+              onReconnect={reconnect}
+            />
+          </div>
+        </div>
+
+        <div className="bg-zinc-900 rounded-lg border border-zinc-800 overflow-hidden">
+          {height === null ? (
+            <div className="px-6 py-12 text-center text-red-400">
+              &quot;{params.height}&quot; is not a valid block height.
+            </div>
+          ) : isLoading ? (
+            <div className="px-6 py-12 text-center text-zinc-500">
+              Loading block...
+            </div>
+          ) : isNotFoundError(error) ? (
+            <div className="px-6 py-12 text-center text-zinc-500">
+              Block {height} has not been indexed.
+            </div>
+          ) : error || !block ? (
+            <div className="px-6 py-12 text-center text-red-400">
+              Block unavailable. The backend could not be reached.
+            </div>
+          ) : (
+            <>
+              <DetailField label="Height">{block.height}</DetailField>
+              <DetailField label="Hash">{block.hash}</DetailField>
+              <DetailField label="Time">
+                {formatDateTime(block.time)}{" "}
+                <span className="text-zinc-500">
+                  ({new Date(block.time).toISOString()})
+                </span>
+              </DetailField>
+              <DetailField label="Transactions">
+                <NumericFormat
+                  value={block.txCount || 0}
+                  displayType="text"
+                  thousandSeparator=","
+                />
+              </DetailField>
+            </>
+          )}
+        </div>
+
+        {height !== null && (
+          <div className="mt-4 flex justify-between text-xs">
+            {height > 1 ? (
+              <Link
+                href={`/block/${height - 1}`}
+                className="text-zinc-400 hover:text-[#4EB345] transition-colors"
+              >
+                ← Block {height - 1}
+              </Link>
+            ) : (
+              <span />
+            )}
+            <Link
+              href={`/block/${height + 1}`}
+              className="text-zinc-400 hover:text-[#4EB345] transition-colors"
+            >
+              Block {height + 1} →
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
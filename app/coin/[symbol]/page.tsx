@@ -0,0 +1,250 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { NumericFormat } from "react-number-format";
+import {
+  useHyperliquidChannel,
+  useHyperliquidConnection,
+} from "@/hooks/useHyperliquidChannel";
+import { usePriceComparison } from "@/hooks/usePriceComparison";
+import { useWhaleSettings, whaleThresholdFor } from "@/hooks/useWhaleSettings";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
+import { GlobalSearch } from "@/components/GlobalSearch";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { TradesTable } from "@/components/TradesTable";
+import { CandlestickChart } from "@/components/CandlestickChart";
+import { OrderBook } from "@/components/OrderBook";
+import { buildPriceSeries } from "@/libs/priceComparison";
+import { tradeNotional } from "@/libs/trades";
+import type { HyperliquidTrade } from "@/types/hyperliquid";
+
+const TAPE_SIZE = 50;
+
+export default function CoinPage() {
+  const params = useParams<{ symbol: string }>();
+  const symbol = decodeURIComponent(params.symbol);
+  const [mid, setMid] = useState<number | null>(null);
+  const [trades, setTrades] = useState<HyperliquidTrade[]>([]);
+  const { connected, connectionState, latency, reconnect, network } =
+    useHyperliquidConnection();
+  const { settings: whaleSettings } = useWhaleSettings();
+  const {
+    data: backendData,
+    isLoading: backendLoading,
+    isError: backendUnavailable,
+  } = usePriceComparison(symbol);
+
+  useHyperliquidChannel({ type: "allMids" }, (data) => {
+    const price = data.mids[symbol];
+    if (price !== undefined) setMid(parseFloat(price));
+  });
+
+  useHyperliquidChannel({ type: "trades", coin: symbol }, (data) => {
+    // Snapshots replayed after a reconnect repeat trades already on the tape
+    setTrades((prev) => {
+      const tids = new Set(prev.map((trade) => trade.tid));
+      const added = data.filter((trade) => !tids.has(trade.tid));
+      return added.length > 0 ? [...added, ...prev].slice(0, TAPE_SIZE) : prev;
+    });
+  });
+
+  const series = buildPriceSeries(mid ?? undefined, backendData);
+
+  return (
+    <div className="min-h-screen bg-black text-white relative">
+      {/* Animated background pattern */}
+      <div className="neon-bg"></div>
+
+      <div className="container mx-auto px-4 py-8 max-w-7xl relative z-10">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <Link
+              href="/"
+              className="text-xs text-zinc-500 hover:text-[#4EB345] transition-colors"
+            >
+              ← Explorer
+            </Link>
+            <h1
+              className="text-2xl font-bold mt-1"
+              style={{ fontFamily: "var(--font-quantico)" }}
+            >
+              <span className="text-[#4EB345] neon-glow-green">{symbol}</span>
+            </h1>
+          </div>
+          <div className="flex items-center gap-3">
+            <NetworkSelector />
+            <GlobalSearch />
+            <ConnectionStatus
+              connectionState={connectionState}
+              latency={latency}
+              label={network.label}
+              onReconnect={reconnect}
+            />
+          </div>
+        </div>
+
+        {/* Live mid */}
+        <div className="mb-8 flex gap-4">
+          <div className="bg-zinc-900 rounded-lg border border-zinc-800 px-6 py-4 flex items-center gap-4">
+            <span
+              className="text-xs text-zinc-400"
+              style={{ fontFamily: "var(--font-quantico)" }}
+            >
+              Mid Price
+            </span>
+            {mid !== null ? (
+              <NumericFormat
+                value={mid}
+                displayType="text"
+                prefix="$"
+                thousandSeparator=","
+                decimalScale={mid > 1000 ? 2 : 6}
+                className="text-lg font-mono text-[#4EB345] neon-glow-green"
+              />
+            ) : (
+              <span className="text-lg font-mono text-zinc-500">—</span>
+            )}
+          </div>
+          <div className="bg-zinc-900 rounded-lg border border-zinc-800 px-6 py-4 flex items-center gap-4">
+            <span
+              className="text-xs text-zinc-400"
+              style={{ fontFamily: "var(--font-quantico)" }}
+            >
+              Backend Samples
+            </span>
+            <span className="text-lg font-mono text-zinc-200">
+              {backendData ? backendData.count.toLocaleString() : "—"}
+            </span>
+          </div>
+        </div>
+
+        {/* Candles with backend overlay */}
+        <section className="mb-8">
+          <h2 className="mb-3 text-sm font-bold text-zinc-300">Candles</h2>
+          <CandlestickChart coin={symbol} />
+        </section>
+
+        {/* Aggregated l2Book ladders and depth */}
+        <section className="mb-8">
+          <h2 className="mb-3 text-sm font-bold text-zinc-300">Order Book</h2>
+          <OrderBook coin={symbol} />
+        </section>
+
+        <div className="grid gap-8 lg:grid-cols-2">
+          {/* Trade tape */}
+          <section>
+            <h2 className="mb-3 text-sm font-bold text-zinc-300">
+              Live Trades
+            </h2>
+            <TradesTable
+              trades={trades}
+              isHighlighted={(trade) =>
+                tradeNotional(trade) >=
+                whaleThresholdFor(whaleSettings, trade.coin)
+              }
+              emptyMessage={
+                connected
+                  ? `Waiting for ${symbol} trades...`
+                  : "Connecting to WebSocket..."
+              }
+            />
+          </section>
+
+          {/* Backend price history */}
+          <section>
+            <h2 className="mb-3 text-sm font-bold text-zinc-300">
+              Backend Price History
+            </h2>
+            <div className="bg-zinc-900 rounded-lg border border-zinc-800 overflow-hidden">
+              <div className="overflow-x-auto max-h-[560px] overflow-y-auto">
+                <table className="w-full">
+                  <thead className="bg-[#4EB345]/10 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-sm font-semibold text-zinc-300">
+                        Recorded
+                      </th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-zinc-300">
+                        Backend Price
+                      </th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-zinc-300">
+                        Live vs Backend
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {backendUnavailable ? (
+                      <tr>
+                        <td
+                          colSpan={3}
+                          className="px-6 py-12 text-center text-red-400"
+                        >
+                          Backend prices unavailable.
+                        </td>
+                      </tr>
+                    ) : series.length === 0 ? (
+                      <tr>
+                        <td
+                          colSpan={3}
+                          className="px-6 py-12 text-center text-zinc-500"
+                        >
+                          {backendLoading
+                            ? "Loading backend prices..."
+                            : "No backend prices for this coin"}
+                        </td>
+                      </tr>
+                    ) : (
+                      series.map((point, index) => (
+                        <tr
+                          key={`${point.time}-${index}`}
+                          className="border-t border-zinc-800 hover:bg-zinc-800/30 transition-colors"
+                        >
+                          <td className="px-4 py-2 text-sm font-mono">
+                            {new Date(point.time).toLocaleString("en-US")}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-right font-mono">
+                            <NumericFormat
+                              value={point.price}
+                              displayType="text"
+                              prefix="$"
+                              thousandSeparator=","
+                              decimalScale={point.price > 1000 ? 2 : 6}
+                            />
+                          </td>
+                          <td
+                            className={`px-4 py-2 text-sm text-right font-mono ${
+                              point.priceDiffPercent === null
+                                ? "text-zinc-500"
+                                : point.priceDiffPercent >= 0
+                                ? "text-green-400"
+                                : "text-red-400"
+                            }`}
+                          >
+                            {point.priceDiffPercent !== null ? (
+                              <NumericFormat
+                                value={point.priceDiffPercent}
+                                displayType="text"
+                                decimalScale={4}
+                                fixedDecimalScale
+                                prefix={point.priceDiffPercent >= 0 ? "+" : ""}
+                                suffix="%"
+                              />
+                            ) : (
+                              "—"
+                            )}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Quantico } from "next/font/google";
 import "./globals.css";
 import { QueryProvider } from "@/components/QueryProvider";
+import { HyperliquidProvider } from "@/components/HyperliquidProvider";
 
 const quantico = Quantico({
   variable: "--font-quantico",
@@ -35,7 +36,9 @@ export default function RootLayout({
         className={`${quantico.variable} antialiased`}
         style={{ fontFamily: 'var(--font-quantico)' }}
       >
-        <QueryProvider>{children}</QueryProvider>
+        <QueryProvider>
+          <HyperliquidProvider>{children}</HyperliquidProvider>
+        </QueryProvider>
       </body>
     </html>
   );
@@ -5,121 +5,189 @@ import {
   useCallback,
   useEffect,
   useRef,
+  useMemo,
   type Dispatch,
   type SetStateAction,
 } from "react";
+import Link from "next/link";
 import { NumericFormat } from "react-number-format";
-import { useWebsocket } from "@/hooks/useWebsocket";
-import { usePriceComparison } from "@/hooks/usePriceComparison";
+import { useQueryClient } from "@tanstack/react-query";
+import { useSubscriptionStatuses } from "@/hooks/useSubscriptionManager";
+import {
+  useHyperliquidConnection,
+  useHyperliquidSubscriptions,
+} from "@/hooks/useHyperliquidChannel";
+import {
+  subscriptionKey,
+  type SubscriptionStatus,
+} from "@/libs/subscriptionManager";
+import {
+  priceComparisonQueryKey,
+  usePriceComparison,
+} from "@/hooks/usePriceComparison";
+import { useBlocks } from "@/hooks/useBlocks";
+import { useAssetContexts } from "@/hooks/useAssetContexts";
+import { useDriftMonitor } from "@/hooks/useDriftMonitor";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import { useTradeBuffer } from "@/hooks/useTradeBuffer";
+import { useWhaleSettings, whaleThresholdFor } from "@/hooks/useWhaleSettings";
+import { useDroppedFrameCounts } from "@/hooks/useDroppedFrameCounts";
+import { WatchlistEditor } from "@/components/WatchlistEditor";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
+import { GlobalSearch } from "@/components/GlobalSearch";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { TradesTable } from "@/components/TradesTable";
+import { TradeExplorer } from "@/components/TradeExplorer";
+import { Sparkline } from "@/components/Sparkline";
+import { TradeStatsPanel } from "@/components/TradeStatsPanel";
+import { DriftMonitorPanel } from "@/components/DriftMonitorPanel";
+import { WhaleSettingsPanel } from "@/components/WhaleSettingsPanel";
+import {
+  calculatePriceComparison,
+  COMPARISON_WINDOWS,
+  type ComparisonWindow,
+} from "@/libs/priceComparison";
+import { buildCoinPrice } from "@/libs/coinPrice";
+import { exportComparisons, type ExportFormat } from "@/libs/exportData";
+import type { PriceComparisonResponse } from "@/libs/api";
+import { formatDriftValue } from "@/libs/driftMonitor";
+import { networkCacheKey } from "@/libs/network";
+import {
+  loadPriceHistory,
+  prunePriceHistory,
+  sampleTimestamp,
+  savePriceSamples,
+  PRICE_HISTORY_RETENTION,
+  type PriceSample,
+} from "@/libs/priceHistoryStore";
+import {
+  formatCompactUsd,
+  formatDateTime,
+  formatDuration,
+  formatHash,
+  formatTime,
+} from "@/libs/format";
+import {
+  createThroughputTracker,
+  type ThroughputSnapshot,
+} from "@/libs/throughput";
+import {
+  createTradeAnalytics,
+  TRADE_STAT_WINDOWS,
+  type TradeStatWindow,
+} from "@/libs/tradeAnalytics";
+import {
+  createWhaleTracker,
+  isFreshWhale,
+  notifyWhaleTrade,
+  playWhaleSound,
+  primeWhaleSound,
+} from "@/libs/whaleTrades";
+import { tradeNotional } from "@/libs/trades";
 import type {
+  CoinTradeStats,
+  HyperliquidAssetCtx,
   HyperliquidTrade,
-  HyperliquidBlock,
   CoinPrice,
   PriceHistoryEntry,
-  PriceComparison,
+  HyperliquidSubscription,
+  HyperliquidWebSocketMessage,
 } from "@/types/hyperliquid";
 
-const WS_URL = "wss://api.hyperliquid.xyz/ws";
 const MAX_ITEMS = 10;
-const TRACKED_COINS = ["BTC", "ETH", "SOL", "ARB", "AVAX"];
-
-// Helper function to format duration in human-readable format
-function formatDuration(ms: number): string {
-  const seconds = Math.floor(ms / 1000);
-  const minutes = Math.floor(seconds / 60);
-  const hours = Math.floor(minutes / 60);
-  const days = Math.floor(hours / 24);
-
-  if (days > 0) return `${days}d`;
-  if (hours > 0) return `${hours}h`;
-  if (minutes > 0) return `${minutes}m`;
-  return `${seconds}s`;
-}
-
-// Helper function to calculate price comparison
-function calculatePriceComparison(
-  symbol: string,
-  wsPrice: number | undefined,
-  backendData: ReturnType<typeof usePriceComparison>["data"]
-): PriceComparison | null {
-  if (!wsPrice || wsPrice <= 0) return null;
-
-  if (!backendData || !backendData.prices || backendData.prices.length === 0) {
-    return {
-      wsPrice,
-      backendPrice: null,
-      priceDiff: null,
-      priceDiffPercent: null,
-      durationFromLatest: null,
-    };
-  }
-
-  // Last index is the latest/most recent price (ordered ASC by created_at)
-  const oldestPriceIndex = backendData.prices.length - 1;
-
-  const oldestBackendPrice =
-    backendData.prices[oldestPriceIndex]?.price || null;
-  const oldestBackendPriceTime = backendData.prices[oldestPriceIndex]
-    ?.created_at
-    ? new Date(backendData.prices[oldestPriceIndex].created_at).getTime()
-    : null;
-
-  // Calculate duration from now to latest price's created_at
-  const durationFromLatest =
-    oldestBackendPriceTime !== null
-      ? Date.now() - oldestBackendPriceTime
-      : null;
-
-  // Calculate difference between WS and oldest backend price
-  const priceDiff =
-    oldestBackendPrice !== null ? wsPrice - oldestBackendPrice : null;
-
-  const priceDiffPercent =
-    oldestBackendPrice !== null && oldestBackendPrice > 0
-      ? (priceDiff! / oldestBackendPrice) * 100
-      : null;
-
-  return {
-    wsPrice,
-    backendPrice: oldestBackendPrice,
-    priceDiff,
-    priceDiffPercent,
-    durationFromLatest,
-  };
-}
 
 // PriceCard component for displaying price
 function PriceCard({
   symbol,
   wsPriceData,
+  subscriptionStatus,
+  tradeStats,
+  tradeWindow,
+  comparisonWindow,
 }: {
   symbol: string;
   wsPriceData: CoinPrice | undefined;
+  subscriptionStatus: SubscriptionStatus | undefined;
+  tradeStats: CoinTradeStats | undefined;
+  tradeWindow: TradeStatWindow;
+  comparisonWindow: ComparisonWindow;
 }) {
-  const { data: backendData } = usePriceComparison(symbol);
+  const { data: backendData } = usePriceComparison(symbol, comparisonWindow);
 
   const hasData = wsPriceData && wsPriceData.price > 0;
+  const driftIncidents = useDriftMonitor(symbol, wsPriceData?.price);
+  const isDrifting = driftIncidents.length > 0;
 
   const comparison = hasData
-    ? calculatePriceComparison(symbol, wsPriceData!.price, backendData)
+    ? calculatePriceComparison(
+        wsPriceData!.price,
+        backendData,
+        comparisonWindow
+      )
     : null;
 
   const priceDiffPercent = comparison?.priceDiffPercent ?? null;
   const priceDiff = comparison?.priceDiff ?? null;
-  const durationFromLatest = comparison?.durationFromLatest ?? null;
+  const sampleTime = comparison?.sampleTime ?? null;
+  const sampleAge = comparison?.sampleAge ?? null;
   const isPositive = priceDiffPercent !== null && priceDiffPercent >= 0;
   const isNegative = priceDiffPercent !== null && priceDiffPercent < 0;
   const diffIsPositive = priceDiff !== null && priceDiff > 0;
   const diffIsNegative = priceDiff !== null && priceDiff < 0;
 
-  // Format duration for display (e.g., "2h", "5m", "24h")
-  const durationLabel =
-    durationFromLatest !== null ? formatDuration(durationFromLatest) : "24h";
+  // Actual age of the compared sample (e.g., "2h", "5m", "1d")
+  const durationLabel = sampleAge !== null ? formatDuration(sampleAge) : null;
+
+  // Window the 24h change covers; none until a local sample has aged
+  const baselineAge = wsPriceData?.price24hAge ?? null;
+  const baselineLabel =
+    wsPriceData?.baselineSource === "exchange"
+      ? "24h"
+      : baselineAge === null || baselineAge <= 0
+      ? null
+      : baselineAge >= PRICE_HISTORY_RETENTION
+      ? "24h"
+      : formatDuration(baselineAge);
 
   return (
-    <div className="bg-zinc-900/50 backdrop-blur-sm rounded-lg border border-zinc-800 p-4 hover:border-[#4EB345]/40 transition-all duration-300">
+    <Link
+      href={`/coin/${encodeURIComponent(symbol)}`}
+      className={`block bg-zinc-900/50 backdrop-blur-sm rounded-lg border p-4 transition-all duration-300 ${
+        isDrifting
+          ? "border-red-500/70 shadow-lg shadow-red-500/10"
+          : "border-zinc-800 hover:border-[#4EB345]/40"
+      }`}
+    >
       <div className="flex items-center justify-between mb-2">
-        <span className="text-xs font-semibold text-zinc-400">{symbol}</span>
+        <span className="flex items-center gap-1.5 text-xs font-semibold text-zinc-400">
+          <span
+            className={`h-1.5 w-1.5 rounded-full ${
+              subscriptionStatus === "confirmed"
+                ? "bg-[#4EB345]"
+                : subscriptionStatus === "failed"
+                ? "bg-red-500"
+                : "bg-yellow-500"
+            }`}
+            title={`Trades feed: ${subscriptionStatus ?? "pending"}`}
+          ></span>
+          {symbol}
+          {isDrifting && (
+            <span
+              className="rounded bg-red-500/20 px-1 text-[10px] text-red-400"
+              title={driftIncidents
+                .map(
+                  (incident) =>
+                    `${incident.kind} ${formatDriftValue(
+                      incident.kind,
+                      incident.peak
+                    )} > ${formatDriftValue(incident.kind, incident.threshold)}`
+                )
+                .join("\n")}
+            >
+              drift
+            </span>
+          )}
+        </span>
         {priceDiffPercent !== null && (
           <span
             className={`text-[10px] font-medium px-2 py-1 rounded ${
@@ -138,7 +206,11 @@ function PriceCard({
               prefix={isPositive ? "+" : ""}
               suffix="%"
             />
-            <span className="ml-1 text-[10px] opacity-75">{durationLabel}</span>
+            {durationLabel && (
+              <span className="ml-1 text-[10px] opacity-75">
+                {durationLabel}
+              </span>
+            )}
           </span>
         )}
       </div>
@@ -158,6 +230,28 @@ function PriceCard({
         ) : (
           <span className="text-base font-bold text-zinc-50">—</span>
         )}
+        {hasData && baselineLabel !== null && (
+          <span
+            className={`text-[10px] font-mono ${
+              wsPriceData!.change >= 0 ? "text-green-400" : "text-red-400"
+            }`}
+            title={
+              wsPriceData!.baselineSource === "exchange"
+                ? "Change vs. the exchange's previous-day price"
+                : "Change vs. the oldest locally recorded mid"
+            }
+          >
+            <NumericFormat
+              value={wsPriceData!.changePercent}
+              displayType="text"
+              decimalScale={2}
+              fixedDecimalScale
+              prefix={wsPriceData!.change >= 0 ? "+" : ""}
+              suffix="%"
+            />
+            <span className="ml-1 opacity-75">{baselineLabel}</span>
+          </span>
+        )}
       </div>
       {priceDiff !== null && priceDiff !== 0 && (
         <div
@@ -180,29 +274,110 @@ function PriceCard({
           />
         </div>
       )}
-    </div>
+      {sampleTime !== null && comparison?.backendPrice != null && (
+        <div
+          className="text-[10px] mt-1 font-mono text-zinc-500"
+          title={new Date(sampleTime).toISOString()}
+        >
+          vs {formatDateTime(sampleTime)}
+        </div>
+      )}
+      {hasData && wsPriceData!.dayNotionalVolume !== null && (
+        <div className="mt-2 grid grid-cols-3 gap-1 text-[10px] font-mono text-zinc-500">
+          <span title="24h notional volume">
+            <span className="block opacity-75">Vol</span>
+            <span className="text-zinc-300">
+              {formatCompactUsd(wsPriceData!.dayNotionalVolume)}
+            </span>
+          </span>
+          <span title="Hourly funding rate">
+            <span className="block opacity-75">Fund</span>
+            {wsPriceData!.funding !== null ? (
+              <NumericFormat
+                value={wsPriceData!.funding * 100}
+                displayType="text"
+                decimalScale={4}
+                fixedDecimalScale
+                prefix={wsPriceData!.funding >= 0 ? "+" : ""}
+                suffix="%"
+                className={
+                  wsPriceData!.funding >= 0 ? "text-green-400" : "text-red-400"
+                }
+              />
+            ) : (
+              "—"
+            )}
+          </span>
+          <span title="Open interest at mark price">
+            <span className="block opacity-75">OI</span>
+            <span className="text-zinc-300">
+              {wsPriceData!.openInterest !== null
+                ? formatCompactUsd(wsPriceData!.openInterest)
+                : "—"}
+            </span>
+          </span>
+        </div>
+      )}
+      {tradeStats && (
+        <div className="mt-2 flex items-center justify-between text-[10px] font-mono text-zinc-500">
+          <span>
+            {formatCompactUsd(tradeStats.volume)}{" "}
+            <span className="opacity-75">{tradeWindow}</span>
+          </span>
+          <span
+            className={
+              tradeStats.imbalance >= 0 ? "text-green-400" : "text-red-400"
+            }
+            title="Buy vs sell notional imbalance"
+          >
+            <NumericFormat
+              value={tradeStats.imbalance * 100}
+              displayType="text"
+              decimalScale={0}
+              prefix={tradeStats.imbalance >= 0 ? "+" : ""}
+              suffix="%"
+            />
+          </span>
+        </div>
+      )}
+    </Link>
   );
 }
 
 export default function Home() {
-  const [activeTab, setActiveTab] = useState<"transactions" | "blocks">(
-    "transactions"
-  );
-  const [transactions, setTransactions] = useState<HyperliquidTrade[]>([]);
-  const [blocks, setBlocks] = useState<HyperliquidBlock[]>([]);
+  const [activeTab, setActiveTab] = useState<
+    "transactions" | "whales" | "blocks"
+  >("transactions");
+  const transactions = useTradeBuffer();
+  const [whaleTrades, setWhaleTrades] = useState<HyperliquidTrade[]>([]);
   const [coinPrices, setCoinPrices] = useState<Record<string, CoinPrice>>({});
+  const [availableCoins, setAvailableCoins] = useState<string[]>([]);
+  const { watchlist, addCoin, removeCoin } = useWatchlist();
+  const [throughputTracker] = useState(() => createThroughputTracker());
+  const [tradeAnalytics] = useState(() => createTradeAnalytics());
+  const [whaleTracker] = useState(() => createWhaleTracker());
+  const { settings: whaleSettings } = useWhaleSettings();
+  const [tradeWindow, setTradeWindow] = useState<TradeStatWindow>("15m");
+  const [comparisonWindow, setComparisonWindow] =
+    useState<ComparisonWindow>("latest");
+  const [tradeStats, setTradeStats] = useState<
+    Partial<Record<TradeStatWindow, Record<string, CoinTradeStats>>>
+  >({});
   const [stripeToggle, setStripeToggle] = useState(false);
-  const [tps, setTps] = useState(0);
+  const [throughput, setThroughput] = useState<ThroughputSnapshot | null>(null);
   const [isIndexerReady, setIsIndexerReady] = useState(false);
   const [showLoading, setShowLoading] = useState(true);
-  const subscriptionsRef = useRef<Set<string>>(new Set());
+  const watchlistRef = useRef(watchlist);
+  const whaleSettingsRef = useRef(whaleSettings);
+  const availableCoinsKeyRef = useRef("");
   const priceHistoryRef = useRef<Record<string, PriceHistoryEntry[]>>({});
+  const assetCtxRef = useRef<Record<string, HyperliquidAssetCtx>>({});
+  const liveAssetCtxRef = useRef<Record<string, HyperliquidAssetCtx>>({});
+  const latestMidsRef = useRef<Record<string, string>>({});
+  const queryClient = useQueryClient();
   const setStripeToggleRef = useRef<Dispatch<SetStateAction<boolean>> | null>(
     null
   );
-  const transactionTimestampsRef = useRef<number[]>([]);
-  const subscriptionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const hasSubscribedRef = useRef(false);
   const indexerReadyRef = useRef(false);
   const hasReceivedTransactionsRef = useRef(false);
   const hasReceivedPricesRef = useRef(false);
@@ -212,44 +387,103 @@ export default function Home() {
     setStripeToggleRef.current = setStripeToggle;
   }, [setStripeToggle]);
 
-  // Calculate real-time TPS
+  // Keep ref updated with latest watchlist for the message handler
+  // Live asset contexts stop updating once a coin leaves the watchlist
   useEffect(() => {
-    const interval = setInterval(() => {
-      const now = Date.now();
-      const oneSecondAgo = now - 1000;
+    watchlistRef.current = watchlist;
+    Object.keys(liveAssetCtxRef.current).forEach((coin) => {
+      if (!watchlist.includes(coin)) delete liveAssetCtxRef.current[coin];
+    });
+  }, [watchlist]);
 
-      // Keep only timestamps from the last second
-      transactionTimestampsRef.current =
-        transactionTimestampsRef.current.filter(
-          (timestamp) => timestamp > oneSecondAgo
-        );
+  useEffect(() => {
+    whaleSettingsRef.current = whaleSettings;
+  }, [whaleSettings]);
 
-      // TPS is the count of transactions in the last second
-      setTps(transactionTimestampsRef.current.length);
-    }, 100); // Update every 100ms for smooth real-time display
+  // Audio needs a user gesture after reload before the chime can play
+  useEffect(() => {
+    if (!whaleSettings.sound) return;
+    window.addEventListener("pointerdown", primeWhaleSound, { once: true });
+    return () => window.removeEventListener("pointerdown", primeWhaleSound);
+  }, [whaleSettings.sound]);
+
+  const isWhaleTrade = useCallback(
+    (trade: HyperliquidTrade) =>
+      tradeNotional(trade) >= whaleThresholdFor(whaleSettings, trade.coin),
+    [whaleSettings]
+  );
 
-    return () => clearInterval(interval);
-  }, []);
+  // Seed exchange asset contexts; live activeAssetCtx frames take over for
+  // subscribed coins, the periodic refetch covers the rest
+  const { data: assetContexts } = useAssetContexts();
+  useEffect(() => {
+    if (assetContexts) {
+      assetCtxRef.current = { ...assetContexts, ...liveAssetCtxRef.current };
+    }
+  }, [assetContexts]);
 
-  const handleWebSocketMessage = useCallback((data: unknown) => {
-    if (!data || typeof data !== "object") return;
+  // Restore persisted price history so 24h change survives reloads
+  useEffect(() => {
+    const cutoff = Date.now() - PRICE_HISTORY_RETENTION;
+    loadPriceHistory(cutoff)
+      .then((stored) => {
+        Object.entries(stored).forEach(([coin, entries]) => {
+          const current = priceHistoryRef.current[coin] ?? [];
+          const firstTimestamp = current[0]?.timestamp ?? Infinity;
+          priceHistoryRef.current[coin] = [
+            ...entries.filter((entry) => entry.timestamp < firstTimestamp),
+            ...current,
+          ];
+        });
+        return prunePriceHistory(cutoff);
+      })
+      .catch((error) =>
+        console.warn(
+          "Price history unavailable, using this session only:",
+          error
+        )
+      );
+  }, []);
 
-    const message = data as Record<string, unknown>;
+  // Publish throughput and trade stats once per second; both bucket by exchange time
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setThroughput(throughputTracker.getSnapshot());
+      setTradeStats(
+        Object.fromEntries(
+          TRADE_STAT_WINDOWS.map((statWindow) => [
+            statWindow,
+            tradeAnalytics.getStats(statWindow),
+          ])
+        )
+      );
+    }, 1000);
 
-    // Handle trades data
-    if (message.channel === "trades" && Array.isArray(message.data)) {
-      const trades = message.data as HyperliquidTrade[];
-      if (trades.length > 0) {
-        const now = Date.now();
-        // Record timestamps for TPS calculation
-        transactionTimestampsRef.current.push(
-          ...new Array(trades.length).fill(now)
-        );
+    return () => clearInterval(interval);
+  }, [throughputTracker, tradeAnalytics]);
+
+  const handleWebSocketMessage = useCallback(
+    (message: HyperliquidWebSocketMessage) => {
+      // Handle trades data
+      if (message.channel === "trades") {
+        const trades = message.data;
+        if (trades.length > 0) {
+          throughputTracker.record(trades);
+          tradeAnalytics.record(trades);
+
+          const whaleConfig = whaleSettingsRef.current;
+          const whales = whaleTracker.record(trades, (coin) =>
+            whaleThresholdFor(whaleConfig, coin)
+          );
+          if (whales.length > 0) {
+            setWhaleTrades(whaleTracker.getTrades());
+            const fresh = whales.filter((trade) => isFreshWhale(trade));
+            if (whaleConfig.notify) fresh.forEach(notifyWhaleTrade);
+            if (whaleConfig.sound && fresh.length > 0) playWhaleSound();
+          }
 
-        setTransactions((prev) => {
-          const updated = [...trades, ...prev].slice(0, MAX_ITEMS);
-          // Mark that we've received transactions
-          if (!hasReceivedTransactionsRef.current && updated.length > 0) {
+          // The provider has already added these to the shared trade buffer
+          if (!hasReceivedTransactionsRef.current) {
             hasReceivedTransactionsRef.current = true;
             // Check if both transactions and prices are ready
             if (hasReceivedPricesRef.current && !indexerReadyRef.current) {
@@ -257,73 +491,82 @@ export default function Home() {
               setIsIndexerReady(true);
             }
           }
-          return updated;
-        });
-        // Toggle stripe color on update
-        setStripeToggleRef.current?.((prev) => !prev);
+          // Toggle stripe color on update
+          setStripeToggleRef.current?.((prev) => !prev);
+        }
+      }
+
+      // Exchange stats for a watchlist coin; fold into its price card right away
+      if (message.channel === "activeAssetCtx") {
+        const { coin, ctx } = message.data;
+        assetCtxRef.current[coin] = ctx;
+        liveAssetCtxRef.current[coin] = ctx;
+        setCoinPrices((prev) =>
+          prev[coin]
+            ? {
+                ...prev,
+                [coin]: buildCoinPrice(
+                  coin,
+                  prev[coin].price,
+                  priceHistoryRef.current[coin] ?? [],
+                  ctx
+                ),
+              }
+            : prev
+        );
       }
-    }
 
-    // Handle allMids price data
-    if (message.channel === "allMids" && message.data) {
-      const midsData = message.data as Record<string, unknown>;
-      if (midsData.mids && typeof midsData.mids === "object") {
-        const mids = midsData.mids as Record<string, string>;
+      // Handle allMids price data
+      if (message.channel === "allMids") {
+        const { mids } = message.data;
         const now = Date.now();
-        const twentyFourHoursAgo = now - 24 * 60 * 60 * 1000;
+        latestMidsRef.current = mids;
+
+        // Track the coin universe for the watchlist picker (skip @-prefixed spot ids)
+        const universe = Object.keys(mids)
+          .filter((coin) => !coin.startsWith("@"))
+          .sort();
+        const universeKey = universe.join(",");
+        if (universeKey !== availableCoinsKeyRef.current) {
+          availableCoinsKeyRef.current = universeKey;
+          setAvailableCoins(universe);
+        }
+
+        // Downsample into history, one entry per sample interval
+        const historyCutoff = now - PRICE_HISTORY_RETENTION;
+        const newSamples: PriceSample[] = [];
+        Object.entries(mids).forEach(([coin, priceStr]) => {
+          if (!watchlistRef.current.includes(coin)) return;
+          const timestamp = sampleTimestamp(now);
+          const history = (priceHistoryRef.current[coin] ?? []).filter(
+            (entry) => entry.timestamp > historyCutoff
+          );
+          if (history[history.length - 1]?.timestamp !== timestamp) {
+            const sample = { price: parseFloat(priceStr), timestamp };
+            history.push(sample);
+            newSamples.push({ coin, ...sample });
+          }
+          priceHistoryRef.current[coin] = history;
+        });
+        savePriceSamples(newSamples).catch((error) =>
+          console.warn("Failed to persist price samples:", error)
+        );
 
         setCoinPrices((prev) => {
           const updated: Record<string, CoinPrice> = { ...prev };
           let hasNewPriceData = false;
 
           Object.entries(mids).forEach(([coin, priceStr]) => {
-            if (TRACKED_COINS.includes(coin)) {
-              const currentPrice = parseFloat(priceStr);
-              hasNewPriceData = true;
-
-              // Initialize price history if it doesn't exist
-              if (!priceHistoryRef.current[coin]) {
-                priceHistoryRef.current[coin] = [];
-              }
-
-              // Add current price to history
-              priceHistoryRef.current[coin].push({
-                price: currentPrice,
-                timestamp: now,
-              });
-
-              // Clean up old entries (older than 24 hours)
-              priceHistoryRef.current[coin] = priceHistoryRef.current[
-                coin
-              ].filter((entry) => entry.timestamp > twentyFourHoursAgo);
-
-              // Find price from 24 hours ago (or closest available)
-              const history = priceHistoryRef.current[coin];
-              let price24h = currentPrice;
-
-              if (history.length > 0) {
-                // Find the oldest entry (closest to 24h ago)
-                const oldestEntry = history[0];
-                if (oldestEntry.timestamp <= twentyFourHoursAgo) {
-                  price24h = oldestEntry.price;
-                } else {
-                  // If we don't have 24h of history yet, use the first recorded price
-                  price24h = oldestEntry.price;
-                }
-              }
-
-              const change = currentPrice - price24h;
-              const changePercent =
-                price24h > 0 ? (change / price24h) * 100 : 0;
-
-              updated[coin] = {
-                coin,
-                price: currentPrice,
-                price24h,
-                change,
-                changePercent,
-              };
-            }
+            const history = priceHistoryRef.current[coin];
+            if (!watchlistRef.current.includes(coin) || !history) return;
+            hasNewPriceData = true;
+            updated[coin] = buildCoinPrice(
+              coin,
+              parseFloat(priceStr),
+              history,
+              assetCtxRef.current[coin],
+              now
+            );
           });
 
           // Mark that we've received prices
@@ -342,183 +585,79 @@ export default function Home() {
           return updated;
         });
       }
-    }
-
-    // Handle subscription response (confirm subscription)
-    if (message.channel === "subscriptionResponse") {
-      const subData = message.data as Record<string, unknown>;
-      if (subData.subscription) {
-        const sub = subData.subscription as Record<string, unknown>;
-        if (sub.type === "trades" && typeof sub.coin === "string") {
-          subscriptionsRef.current.add(sub.coin);
-          console.log(`✓ Successfully subscribed to ${sub.coin} trades`);
-        } else if (sub.type === "allMids") {
-          subscriptionsRef.current.add("allMids");
-          console.log("✓ Successfully subscribed to allMids");
-        }
-      }
-      // Handle subscription errors
-      if (subData.error) {
-        console.error("✗ Subscription error:", subData.error);
-        // Remove from subscriptions if there was an error
-        const sub = subData.subscription as Record<string, unknown>;
-        if (sub?.type === "trades" && typeof sub.coin === "string") {
-          subscriptionsRef.current.delete(sub.coin);
-        } else if (sub?.type === "allMids") {
-          subscriptionsRef.current.delete("allMids");
-        }
-      }
-    }
-
-    // Handle error messages
-    if (message.channel === "error" || message.error) {
-      console.error("WebSocket error:", message.error || message);
-    }
-  }, []);
-
-  const { send, connected } = useWebsocket(WS_URL, handleWebSocketMessage, {
-    onClose: () => {
-      // Reset subscription state on disconnect
-      hasSubscribedRef.current = false;
-      subscriptionsRef.current.clear();
     },
-    reconnect: true,
-    reconnectInterval: 3000,
-    maxReconnectAttempts: Infinity,
-  });
-
-  // Subscription function - defined after hook to access send and connected
-  const subscribeToFeeds = useCallback(() => {
-    if (!connected || !send) return;
-
-    // Clear any existing subscription timeout
-    if (subscriptionTimeoutRef.current) {
-      clearTimeout(subscriptionTimeoutRef.current);
-      subscriptionTimeoutRef.current = null;
-    }
-
-    // Reset subscription tracking on reconnect
-    if (!hasSubscribedRef.current) {
-      subscriptionsRef.current.clear();
-    }
-
-    // Wait a bit for connection to stabilize before subscribing
-    subscriptionTimeoutRef.current = setTimeout(() => {
-      if (!connected || !send) return;
-
-      // Subscribe to allMids for price data (only if not already subscribed)
-      if (!subscriptionsRef.current.has("allMids")) {
-        console.log("Subscribing to allMids");
-        send({
-          method: "subscribe",
-          subscription: { type: "allMids" },
-        });
-        subscriptionsRef.current.add("allMids");
-      }
-
-      // Subscribe to trades for tracked coins
-      TRACKED_COINS.forEach((symbol, index) => {
-        setTimeout(() => {
-          if (connected && send && !subscriptionsRef.current.has(symbol)) {
-            console.log(`Subscribing to ${symbol} trades`);
-            send({
-              method: "subscribe",
-              subscription: { type: "trades", coin: symbol },
-            });
-          }
-        }, 150 * (index + 1)); // Slightly increased delay to prevent rate limiting
-      });
-
-      hasSubscribedRef.current = true;
-    }, 500); // Increased delay to ensure connection is stable
-  }, [connected, send]);
-
-  // Subscribe when connection opens
-  useEffect(() => {
-    if (connected) {
-      hasSubscribedRef.current = false;
-      subscribeToFeeds();
-    }
-
-    return () => {
-      // Cleanup subscription timeout on unmount or dependency change
-      if (subscriptionTimeoutRef.current) {
-        clearTimeout(subscriptionTimeoutRef.current);
-        subscriptionTimeoutRef.current = null;
-      }
-    };
-  }, [connected, subscribeToFeeds]);
+    [throughputTracker, tradeAnalytics, whaleTracker]
+  );
 
-  // Fetch blocks periodically (blocks not available via WebSocket in HyperLiquid)
-  useEffect(() => {
-    let isMounted = true;
-    let blockHeight = 0;
-
-    const fetchBlocks = async () => {
-      if (!isMounted) return;
-
-      try {
-        // Since HyperLiquid doesn't provide blocks via WebSocket,
-        // we'll simulate block updates based on transaction activity
-        // In production, you'd use the REST API to fetch actual blocks
-        const hasNewTransactions = transactions.length > 0;
-
-        if (hasNewTransactions || blockHeight === 0) {
-          setBlocks((prev) => {
-            const newBlock: HyperliquidBlock = {
-              height:
-                blockHeight === 0 && prev.length > 0
-                  ? prev[0].height + 1
-                  : blockHeight === 0
-                  ? 1
-                  : blockHeight + 1,
-              time: Date.now(),
-              hash: `0x${Math.random()
-                .toString(16)
-                .slice(2)
-                .padStart(64, "0")}`,
-              txCount: Math.floor(Math.random() * 50) + 10,
-            };
-            blockHeight = newBlock.height;
-            const updated = [newBlock, ...prev].slice(0, MAX_ITEMS);
-            return updated;
-          });
-          // Toggle stripe color on block update
-          setStripeToggleRef.current?.((prev) => !prev);
-        }
-      } catch (error) {
-        console.error("Failed to update blocks:", error);
-      }
-    };
-
-    // Update blocks every 5 seconds
-    const interval = setInterval(fetchBlocks, 5000);
-    fetchBlocks(); // Initial fetch
-
-    return () => {
-      isMounted = false;
-      clearInterval(interval);
-    };
-  }, [transactions.length]);
-
-  // Format timestamp
-  const formatTime = (timestamp: number) => {
-    return new Date(timestamp).toLocaleTimeString("en-US", {
-      hour: "2-digit",
-      minute: "2-digit",
-      second: "2-digit",
+  // Uses the cached backend samples the price cards already fetched
+  const handleExportComparisons = (format: ExportFormat) => {
+    const entries = watchlist.flatMap((coin) => {
+      const wsPrice = latestMidsRef.current[coin];
+      if (wsPrice === undefined) return [];
+      const backendData = queryClient.getQueryData<PriceComparisonResponse>(
+        priceComparisonQueryKey(
+          networkCacheKey(network),
+          coin,
+          comparisonWindow
+        )
+      );
+      return [
+        {
+          coin,
+          wsPrice,
+          comparison: calculatePriceComparison(
+            parseFloat(wsPrice),
+            backendData,
+            comparisonWindow
+          ),
+        },
+      ];
     });
+    exportComparisons(entries, comparisonWindow, format);
   };
 
-  // Format address/hash
-  const formatHash = (hash: string) => {
-    if (!hash) return "N/A";
-    return `${hash.slice(0, 8)}...${hash.slice(-6)}`;
-  };
+  const {
+    data: blocks = [],
+    isLoading: blocksLoading,
+    isError: blocksUnavailable,
+  } = useBlocks(MAX_ITEMS);
+
+  const { connected, connectionState, latency, reconnect, network, manager } =
+    useHyperliquidConnection();
+
+  // Declare feeds; the shared connection handles subscribe/unsubscribe and replay
+  const feeds = useMemo<HyperliquidSubscription[]>(
+    () => [
+      { type: "allMids" },
+      ...watchlist.flatMap((coin) => [
+        { type: "trades", coin },
+        { type: "activeAssetCtx", coin },
+      ]),
+    ],
+    [watchlist]
+  );
+  useHyperliquidSubscriptions(feeds, handleWebSocketMessage);
 
-  // Calculate stats (all real-time)
-  const latestBlockHeight = blocks[0]?.height || 0;
-  // TPS is calculated in real-time via useEffect hook above
+  const subscriptionStatuses = useSubscriptionStatuses(manager);
+  const droppedFrames = useDroppedFrameCounts();
+  const droppedFrameTotal = Object.values(droppedFrames).reduce(
+    (sum, count) => sum + count,
+    0
+  );
+  const tradeStatus = (coin: string) =>
+    subscriptionStatuses.find(
+      (entry) => entry.key === subscriptionKey({ type: "trades", coin })
+    )?.status;
+
+  // Calculate stats (block height comes from the backend block feed)
+  const latestBlockHeight = blocksUnavailable
+    ? null
+    : blocks[0]?.height ?? null;
+  // TPS only covers coins we hold a trades subscription for
+  const tpsCoverage =
+    watchlist.length <= 3
+      ? watchlist.join(", ")
+      : `${watchlist.slice(0, 3).join(", ")} +${watchlist.length - 3}`;
 
   return (
     <div className="min-h-screen bg-black text-white relative">
@@ -572,19 +711,20 @@ export default function Home() {
               </p>
             </div>
             <div className="flex items-center gap-3">
-              <div className="flex items-center gap-2 px-4 py-2 bg-zinc-900 rounded-lg border border-zinc-800">
-                <div
-                  className={`h-2 w-2 rounded-full ${
-                    connected ? "bg-[#4EB345] neon-glow-green" : "bg-red-500"
-                  }`}
-                ></div>
-                <span
-                  className="text-xs text-zinc-300"
-                  style={{ fontFamily: "var(--font-quantico)" }}
-                >
-                  {connected ? "Mainnet" : "Connecting..."}
-                </span>
-              </div>
+              <NetworkSelector />
+              <GlobalSearch />
+              <Link
+                href="/status"
+                className="px-2 py-1 text-xs rounded border text-zinc-400 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700 transition-colors"
+              >
+                Status
+              </Link>
+              <ConnectionStatus
+                connectionState={connectionState}
+                latency={latency}
+                label={network.label}
+                onReconnect={reconnect}
+              />
             </div>
           </div>
         </div>
@@ -602,38 +742,144 @@ export default function Home() {
               className="text-lg font-mono text-[#4EB345] neon-glow-green"
               style={{ fontFamily: "var(--font-quantico)" }}
             >
-              {latestBlockHeight.toLocaleString()}
+              {latestBlockHeight !== null
+                ? latestBlockHeight.toLocaleString()
+                : "—"}
             </span>
           </div>
           <div className="bg-zinc-900 rounded-lg border border-zinc-800 px-6 py-4 flex items-center gap-4">
-            <span
-              className="text-xs text-zinc-400"
-              style={{ fontFamily: "var(--font-quantico)" }}
-            >
-              Transactions Per Second
-            </span>
+            <div className="flex flex-col">
+              <span
+                className="text-xs text-zinc-400"
+                style={{ fontFamily: "var(--font-quantico)" }}
+              >
+                Transactions Per Second
+              </span>
+              <span
+                className="text-[10px] text-zinc-500"
+                title={`Trades in ${watchlist.join(", ")}`}
+              >
+                {watchlist.length > 0
+                  ? `Watchlist: ${tpsCoverage}`
+                  : "No coins"}
+              </span>
+            </div>
             <span
               className="text-lg font-mono text-[#4EB345] neon-glow-green"
               style={{ fontFamily: "var(--font-quantico)" }}
+              title="Trades in the last completed second"
             >
-              {tps.toLocaleString()}
+              {(throughput?.perSecond ?? 0).toLocaleString()}
             </span>
+            <div className="flex flex-col text-[10px] font-mono text-zinc-500">
+              <span>
+                1m{" "}
+                <NumericFormat
+                  value={throughput?.perMinute ?? 0}
+                  displayType="text"
+                  decimalScale={1}
+                  fixedDecimalScale
+                  className="text-zinc-300"
+                />
+                /s
+              </span>
+              <span>
+                5m{" "}
+                <NumericFormat
+                  value={throughput?.perFiveMinutes ?? 0}
+                  displayType="text"
+                  decimalScale={1}
+                  fixedDecimalScale
+                  className="text-zinc-300"
+                />
+                /s
+              </span>
+            </div>
+            {throughput && <Sparkline values={throughput.history} />}
+          </div>
+        </div>
+
+        {/* Watchlist */}
+        <WatchlistEditor
+          watchlist={watchlist}
+          availableCoins={availableCoins}
+          onAdd={addCoin}
+          onRemove={removeCoin}
+        />
+
+        {/* Backend comparison horizon for the price cards */}
+        <div className="mb-3 flex items-center gap-3">
+          <span
+            className="text-xs text-zinc-400"
+            style={{ fontFamily: "var(--font-quantico)" }}
+          >
+            Compare with backend
+          </span>
+          <div className="flex gap-2">
+            {COMPARISON_WINDOWS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setComparisonWindow(option)}
+                className={`px-2 py-1 text-xs rounded border transition-colors ${
+                  comparisonWindow === option
+                    ? "text-[#4EB345] bg-[#4EB345]/10 border-[#4EB345]"
+                    : "text-zinc-400 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700"
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <div className="ml-auto flex gap-2">
+            {(["csv", "json"] as ExportFormat[]).map((format) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => handleExportComparisons(format)}
+                title="Export the comparisons shown below"
+                className="px-2 py-1 text-xs rounded border text-zinc-400 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700 transition-colors"
+              >
+                Export {format.toUpperCase()}
+              </button>
+            ))}
           </div>
         </div>
 
         {/* Price Statistics Cards - Compact Grid */}
         <div className="mb-8 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
-          {TRACKED_COINS.map((symbol) => {
+          {watchlist.map((symbol) => {
             return (
               <PriceCard
                 key={symbol}
                 symbol={symbol}
                 wsPriceData={coinPrices[symbol]}
+                subscriptionStatus={tradeStatus(symbol)}
+                tradeStats={tradeStats[tradeWindow]?.[symbol]}
+                tradeWindow={tradeWindow}
+                comparisonWindow={comparisonWindow}
               />
             );
           })}
         </div>
 
+        {/* Rolling trade flow per watchlist coin */}
+        <div className="mb-8">
+          <TradeStatsPanel
+            stats={watchlist.flatMap((coin) => {
+              const stats = tradeStats[tradeWindow]?.[coin];
+              return stats ? [stats] : [];
+            })}
+            statWindow={tradeWindow}
+            onWindowChange={setTradeWindow}
+          />
+        </div>
+
+        {/* Backend health against the live feed */}
+        <div className="mb-8">
+          <DriftMonitorPanel watchlist={watchlist} />
+        </div>
+
         {/* Tabs */}
         <div className="mb-6 flex gap-3">
           <button
@@ -647,6 +893,22 @@ export default function Home() {
           >
             Latest Transactions
           </button>
+          <button
+            onClick={() => setActiveTab("whales")}
+            className={`px-6 py-3 text-sm font-bold transition-all rounded-lg border-2 ${
+              activeTab === "whales"
+                ? "text-[#4EB345] bg-[#4EB345]/10 border-[#4EB345] neon-glow-green shadow-lg shadow-[#4EB345]/20"
+                : "text-zinc-400 bg-zinc-900/50 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700 hover:bg-zinc-900"
+            }`}
+            style={{ fontFamily: "var(--font-quantico)" }}
+          >
+            Whale Trades
+            {whaleTrades.length > 0 && (
+              <span className="ml-2 text-xs text-zinc-500">
+                {whaleTrades.length}
+              </span>
+            )}
+          </button>
           <button
             onClick={() => setActiveTab("blocks")}
             className={`px-6 py-3 text-sm font-bold transition-all rounded-lg border-2 ${
@@ -662,100 +924,27 @@ export default function Home() {
 
         {/* Transactions Table */}
         {activeTab === "transactions" && (
-          <div className="bg-zinc-900 rounded-lg border border-zinc-800 overflow-hidden">
-            <div className="overflow-x-auto">
-              <table className="w-full">
-                <thead className="bg-[#4EB345]/10">
-                  <tr>
-                    <th className="px-4 py-2 text-left text-sm font-semibold text-zinc-300">
-                      Time
-                    </th>
-                    <th className="px-4 py-2 text-left text-sm font-semibold text-zinc-300">
-                      Coin
-                    </th>
-                    <th className="px-4 py-2 text-left text-sm font-semibold text-zinc-300">
-                      Side
-                    </th>
-                    <th className="px-4 py-2 text-right text-sm font-semibold text-zinc-300">
-                      Price
-                    </th>
-                    <th className="px-4 py-2 text-right text-sm font-semibold text-zinc-300">
-                      Size
-                    </th>
-                    <th className="px-4 py-2 text-left text-sm font-semibold text-zinc-300">
-                      Hash
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {transactions.length === 0 ? (
-                    <tr>
-                      <td
-                        colSpan={6}
-                        className="px-6 py-12 text-center text-zinc-500"
-                      >
-                        {connected
-                          ? "Waiting for transactions..."
-                          : "Connecting to WebSocket..."}
-                      </td>
-                    </tr>
-                  ) : (
-                    transactions.map((tx, index) => {
-                      const isEven = (index + (stripeToggle ? 1 : 0)) % 2 === 0;
-                      return (
-                        <tr
-                          key={`${tx.time}-${tx.tid}-${index}`}
-                          className={`border-t border-zinc-800 hover:bg-zinc-800/30 transition-colors ${
-                            isEven ? "bg-zinc-900/50" : "bg-zinc-950/50"
-                          }`}
-                        >
-                          <td className="px-4 py-2 text-sm font-mono">
-                            {formatTime(tx.time)}
-                          </td>
-                          <td className="px-4 py-2 text-sm font-semibold">
-                            {tx.coin || "N/A"}
-                          </td>
-                          <td className="px-4 py-2">
-                            <span
-                              className={`px-2 py-0.5 rounded text-xs font-medium ${
-                                tx.side === "B"
-                                  ? "bg-green-500/20 text-green-400"
-                                  : "bg-red-500/20 text-red-400"
-                              }`}
-                            >
-                              {tx.side === "B" ? "Buy" : "Sell"}
-                            </span>
-                          </td>
-                          <td className="px-4 py-2 text-sm text-right font-mono">
-                            <NumericFormat
-                              value={tx.px}
-                              displayType="text"
-                              prefix="$"
-                              thousandSeparator=","
-                              decimalScale={2}
-                              fixedDecimalScale
-                            />
-                          </td>
-                          <td className="px-4 py-2 text-sm text-right font-mono">
-                            <NumericFormat
-                              value={tx.sz}
-                              displayType="text"
-                              thousandSeparator=","
-                              decimalScale={4}
-                              fixedDecimalScale
-                            />
-                          </td>
-                          <td className="px-4 py-2 text-sm font-mono text-zinc-400">
-                            {tx.hash ? formatHash(tx.hash) : `TID: ${tx.tid}`}
-                          </td>
-                        </tr>
-                      );
-                    })
-                  )}
-                </tbody>
-              </table>
-            </div>
-          </div>
+          <TradeExplorer
+            trades={transactions}
+            stripeToggle={stripeToggle}
+            isHighlighted={isWhaleTrade}
+            emptyMessage={
+              connected
+                ? "Waiting for transactions..."
+                : "Connecting to WebSocket..."
+            }
+          />
+        )}
+
+        {/* Whale Trades */}
+        {activeTab === "whales" && (
+          <>
+            <WhaleSettingsPanel watchlist={watchlist} />
+            <TradesTable
+              trades={whaleTrades}
+              emptyMessage="No trades above the threshold yet"
+            />
+          </>
         )}
 
         {/* Blocks Table */}
@@ -780,13 +969,22 @@ export default function Home() {
                   </tr>
                 </thead>
                 <tbody>
-                  {blocks.length === 0 ? (
+                  {blocksUnavailable ? (
+                    <tr>
+                      <td
+                        colSpan={4}
+                        className="px-6 py-12 text-center text-red-400"
+                      >
+                        Blocks unavailable. The block feed could not be reached.
+                      </td>
+                    </tr>
+                  ) : blocks.length === 0 ? (
                     <tr>
                       <td
                         colSpan={4}
                         className="px-6 py-12 text-center text-zinc-500"
                       >
-                        Loading blocks...
+                        {blocksLoading ? "Loading blocks..." : "No blocks yet"}
                       </td>
                     </tr>
                   ) : (
@@ -800,7 +998,12 @@ export default function Home() {
                           }`}
                         >
                           <td className="px-4 py-2 text-sm font-mono font-semibold text-[#4EB345]">
-                            {block.height}
+                            <Link
+                              href={`/block/${block.height}`}
+                              className="hover:underline"
+                            >
+                              {block.height}
+                            </Link>
                           </td>
                           <td className="px-4 py-2 text-sm font-mono">
                             {formatTime(block.time)}
@@ -831,6 +1034,16 @@ export default function Home() {
           style={{ fontFamily: "var(--font-quantico)" }}
         >
           <p>Copyright © {new Date().getFullYear()} by keep_going</p>
+          {droppedFrameTotal > 0 && (
+            <p
+              className="mt-2 text-zinc-600"
+              title={Object.entries(droppedFrames)
+                .map(([channel, count]) => `${channel}: ${count}`)
+                .join("\n")}
+            >
+              Dropped malformed frames: {droppedFrameTotal.toLocaleString()}
+            </p>
+          )}
         </footer>
       </div>
     </div>
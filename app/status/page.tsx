@@ -0,0 +1,533 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { NumericFormat } from "react-number-format";
+import {
+  useHyperliquidConnection,
+  useHyperliquidSubscriptions,
+} from "@/hooks/useHyperliquidChannel";
+import { useSubscriptionStatuses } from "@/hooks/useSubscriptionManager";
+import { usePriceComparison } from "@/hooks/usePriceComparison";
+import { useWatchlist } from "@/hooks/useWatchlist";
+import { useDroppedFrameCounts } from "@/hooks/useDroppedFrameCounts";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
+import { GlobalSearch } from "@/components/GlobalSearch";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { getFeedMetrics, type FeedMetrics } from "@/libs/feedMetrics";
+import { getApiMetrics, type ApiEndpointMetrics } from "@/libs/apiMetrics";
+import { formatDuration, formatTime } from "@/libs/format";
+import type { HyperliquidSubscription } from "@/types/hyperliquid";
+
+const REFRESH_INTERVAL = 1000;
+const FRESHNESS_CHANNELS = ["allMids", "trades", "activeAssetCtx"] as const;
+
+const noop = () => {};
+
+// Green while data is recent, yellow when slowing, red when it looks stuck
+function freshnessClass(
+  age: number | null,
+  warnAfter: number,
+  failAfter: number
+) {
+  if (age === null) return "text-zinc-500";
+  if (age < warnAfter) return "text-green-400";
+  if (age < failAfter) return "text-yellow-400";
+  return "text-red-400";
+}
+
+function Age({
+  now,
+  at,
+  warnAfter = 5000,
+  failAfter = 60000,
+}: {
+  now: number;
+  at: number | null | undefined;
+  warnAfter?: number;
+  failAfter?: number;
+}) {
+  const age = at != null ? Math.max(now - at, 0) : null;
+  return (
+    <span
+      className={freshnessClass(age, warnAfter, failAfter)}
+      title={at != null ? new Date(at).toISOString() : undefined}
+    >
+      {age !== null ? `${formatDuration(age)} ago` : "—"}
+    </span>
+  );
+}
+
+function Section({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="mb-8">
+      <h2 className="mb-3 text-sm font-bold text-zinc-300">{title}</h2>
+      <div className="bg-zinc-900 rounded-lg border border-zinc-800 overflow-hidden">
+        <div className="overflow-x-auto">{children}</div>
+      </div>
+    </section>
+  );
+}
+
+function HeaderCell({
+  children,
+  align = "left",
+}: {
+  children: React.ReactNode;
+  align?: "left" | "right";
+}) {
+  return (
+    <th
+      className={`px-4 py-2 text-sm font-semibold text-zinc-300 ${
+        align === "right" ? "text-right" : "text-left"
+      }`}
+    >
+      {children}
+    </th>
+  );
+}
+
+function EmptyRow({ colSpan, message }: { colSpan: number; message: string }) {
+  return (
+    <tr>
+      <td colSpan={colSpan} className="px-6 py-8 text-center text-zinc-500">
+        {message}
+      </td>
+    </tr>
+  );
+}
+
+// Mounting the query here is what keeps the backend probed while on this page
+function CoinFreshnessRow({
+  coin,
+  now,
+  freshness,
+}: {
+  coin: string;
+  now: number;
+  freshness: Record<string, number> | undefined;
+}) {
+  const { data, isError } = usePriceComparison(coin);
+  const latestSample = data?.prices[data.prices.length - 1];
+
+  return (
+    <tr className="border-t border-zinc-800">
+      <td className="px-4 py-2 text-sm font-semibold">
+        <Link
+          href={`/coin/${encodeURIComponent(coin)}`}
+          className="hover:text-[#4EB345] transition-colors"
+        >
+          {coin}
+        </Link>
+      </td>
+      {FRESHNESS_CHANNELS.map((channel) => (
+        <td key={channel} className="px-4 py-2 text-sm text-right font-mono">
+          <Age now={now} at={freshness?.[channel]} />
+        </td>
+      ))}
+      <td className="px-4 py-2 text-sm text-right font-mono">
+        {isError && !latestSample ? (
+          <span className="text-red-400">unavailable</span>
+        ) : (
+          <Age
+            now={now}
+            at={
+              latestSample ? new Date(latestSample.created_at).getTime() : null
+            }
+            warnAfter={60 * 60 * 1000}
+            failAfter={2 * 60 * 60 * 1000}
+          />
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export default function StatusPage() {
+  const { watchlist } = useWatchlist();
+  const { connectionState, latency, reconnect, network, manager } =
+    useHyperliquidConnection();
+  const subscriptions = useSubscriptionStatuses(manager);
+  const droppedFrames = useDroppedFrameCounts();
+  const [snapshot, setSnapshot] = useState<{
+    now: number;
+    feed: FeedMetrics;
+    api: ApiEndpointMetrics[];
+  } | null>(null);
+
+  // Keep the same feeds as the explorer so freshness reflects real traffic
+  const feeds = useMemo<HyperliquidSubscription[]>(
+    () => [
+      { type: "allMids" },
+      ...watchlist.flatMap((coin) => [
+        { type: "trades", coin },
+        { type: "activeAssetCtx", coin },
+      ]),
+    ],
+    [watchlist]
+  );
+  useHyperliquidSubscriptions(feeds, noop);
+
+  // Metrics are recorded without notifying, so poll them
+  useEffect(() => {
+    const refresh = () => {
+      const now = Date.now();
+      setSnapshot({ now, feed: getFeedMetrics(now), api: getApiMetrics() });
+    };
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const now = snapshot?.now ?? 0;
+
+  return (
+    <div className="min-h-screen bg-black text-white relative">
+      {/* Animated background pattern */}
+      <div className="neon-bg"></div>
+
+      <div className="container mx-auto px-4 py-8 max-w-7xl relative z-10">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <Link
+              href="/"
+              className="text-xs text-zinc-500 hover:text-[#4EB345] transition-colors"
+            >
+              ← Explorer
+            </Link>
+            <h1
+              className="text-2xl font-bold mt-1"
+              style={{ fontFamily: "var(--font-quantico)" }}
+            >
+              <span className="text-[#4EB345] neon-glow-green">SYSTEM</span>{" "}
+              STATUS
+            </h1>
+          </div>
+          <div className="flex items-center gap-3">
+            <NetworkSelector />
+            <GlobalSearch />
+            <ConnectionStatus
+              connectionState={connectionState}
+              latency={latency}
+              label={network.label}
+              onReconnect={reconnect}
+            />
+          </div>
+        </div>
+
+        {!snapshot ? (
+          <div className="py-24 text-center text-sm text-zinc-500">
+            Collecting metrics...
+          </div>
+        ) : (
+          <>
+            {/* WebSocket */}
+            <Section title="WebSocket">
+              <div className="grid grid-cols-2 gap-4 px-4 py-4 text-sm font-mono sm:grid-cols-3 lg:grid-cols-6">
+                <div>
+                  <div className="text-[10px] text-zinc-500">Status</div>
+                  {connectionState.status}
+                </div>
+                <div>
+                  <div className="text-[10px] text-zinc-500">Attempt</div>
+                  {connectionState.attempt}
+                </div>
+                <div>
+                  <div className="text-[10px] text-zinc-500">Latency</div>
+                  {latency !== null ? `${latency}ms` : "—"}
+                </div>
+                <div>
+                  <div className="text-[10px] text-zinc-500">Last message</div>
+                  <Age now={now} at={connectionState.lastMessageAt} />
+                </div>
+                <div>
+                  <div className="text-[10px] text-zinc-500">Last close</div>
+                  {connectionState.lastCloseCode ?? "—"}
+                  {connectionState.lastCloseReason
+                    ? ` (${connectionState.lastCloseReason})`
+                    : ""}
+                </div>
+                <div>
+                  <div className="text-[10px] text-zinc-500">
+                    Tracking since
+                  </div>
+                  {formatTime(snapshot.feed.startedAt)}
+                </div>
+              </div>
+              <table className="w-full border-t border-zinc-800">
+                <thead className="bg-[#4EB345]/10">
+                  <tr>
+                    <HeaderCell>Time</HeaderCell>
+                    <HeaderCell>Status</HeaderCell>
+                    <HeaderCell align="right">Attempt</HeaderCell>
+                    <HeaderCell align="right">Close code</HeaderCell>
+                    <HeaderCell>Reason</HeaderCell>
+                  </tr>
+                </thead>
+                <tbody>
+                  {snapshot.feed.connectionEvents.length === 0 ? (
+                    <EmptyRow colSpan={5} message="No connection events yet" />
+                  ) : (
+                    snapshot.feed.connectionEvents.map((event, index) => (
+                      <tr
+                        key={`${event.at}-${index}`}
+                        className="border-t border-zinc-800"
+                      >
+                        <td className="px-4 py-2 text-sm font-mono">
+                          {formatTime(event.at)}
+                        </td>
+                        <td
+                          className={`px-4 py-2 text-sm font-mono ${
+                            event.status === "open"
+                              ? "text-green-400"
+                              : event.status === "failed"
+                              ? "text-red-400"
+                              : "text-yellow-400"
+                          }`}
+                        >
+                          {event.status}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right font-mono">
+                          {event.attempt}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right font-mono">
+                          {event.lastCloseCode ?? "—"}
+                        </td>
+                        <td className="px-4 py-2 text-sm font-mono text-zinc-400">
+                          {event.lastCloseReason || "—"}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </Section>
+
+            {/* Channels */}
+            <Section title="Channels">
+              <table className="w-full">
+                <thead className="bg-[#4EB345]/10">
+                  <tr>
+                    <HeaderCell>Channel</HeaderCell>
+                    <HeaderCell align="right">Messages</HeaderCell>
+                    <HeaderCell align="right">Rate (1m)</HeaderCell>
+                    <HeaderCell align="right">Dropped</HeaderCell>
+                    <HeaderCell align="right">Last message</HeaderCell>
+                  </tr>
+                </thead>
+                <tbody>
+                  {snapshot.feed.channels.length === 0 ? (
+                    <EmptyRow colSpan={5} message="No messages yet" />
+                  ) : (
+                    snapshot.feed.channels.map((channel) => (
+                      <tr
+                        key={channel.channel}
+                        className="border-t border-zinc-800"
+                      >
+                        <td className="px-4 py-2 text-sm font-mono">
+                          {channel.channel}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right font-mono">
+                          {channel.total.toLocaleString()}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right font-mono">
+                          <NumericFormat
+                            value={channel.perSecond}
+                            displayType="text"
+                            decimalScale={2}
+                            fixedDecimalScale
+                            suffix="/s"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right font-mono">
+                          {(
+                            droppedFrames[channel.channel] ?? 0
+                          ).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right font-mono">
+                          <Age now={now} at={channel.lastAt} />
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </Section>
+
+            {/* Subscriptions */}
+            <Section title="Subscriptions">
+              <table className="w-full">
+                <thead className="bg-[#4EB345]/10">
+                  <tr>
+                    <HeaderCell>Subscription</HeaderCell>
+                    <HeaderCell>Status</HeaderCell>
+                    <HeaderCell align="right">Consumers</HeaderCell>
+                    <HeaderCell align="right">Attempts</HeaderCell>
+                    <HeaderCell>Error</HeaderCell>
+                    <HeaderCell align="right">Updated</HeaderCell>
+                  </tr>
+                </thead>
+                <tbody>
+                  {subscriptions.length === 0 ? (
+                    <EmptyRow colSpan={6} message="No active subscriptions" />
+                  ) : (
+                    subscriptions.map((entry) => (
+                      <tr key={entry.key} className="border-t border-zinc-800">
+                        <td className="px-4 py-2 text-sm font-mono">
+                          {entry.key}
+                        </td>
+                        <td
+                          className={`px-4 py-2 text-sm font-mono ${
+                            entry.status === "confirmed"
+                              ? "text-green-400"
+                              : entry.status === "failed"
+                              ? "text-red-400"
+                              : "text-yellow-400"
+                          }`}
+                        >
+                          {entry.status}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right font-mono">
+                          {entry.refCount}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right font-mono">
+                          {entry.attempts}
+                        </td>
+                        <td className="px-4 py-2 text-sm font-mono text-red-400">
+                          {entry.error ?? ""}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right font-mono">
+                          <Age
+                            now={now}
+                            at={entry.updatedAt}
+                            warnAfter={Infinity}
+                            failAfter={Infinity}
+                          />
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </Section>
+
+            {/* Backend API */}
+            <Section title="Backend API">
+              <table className="w-full">
+                <thead className="bg-[#4EB345]/10">
+                  <tr>
+                    <HeaderCell>Endpoint</HeaderCell>
+                    <HeaderCell align="right">Requests</HeaderCell>
+                    <HeaderCell align="right">Error rate</HeaderCell>
+                    <HeaderCell align="right">Latency (last / avg)</HeaderCell>
+                    <HeaderCell align="right">Last success</HeaderCell>
+                    <HeaderCell>Last error</HeaderCell>
+                  </tr>
+                </thead>
+                <tbody>
+                  {snapshot.api.length === 0 ? (
+                    <EmptyRow colSpan={6} message="No requests yet" />
+                  ) : (
+                    snapshot.api.map((endpoint) => (
+                      <tr
+                        key={endpoint.endpoint}
+                        className="border-t border-zinc-800"
+                      >
+                        <td className="px-4 py-2 text-sm font-mono">
+                          {endpoint.endpoint}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right font-mono">
+                          {endpoint.requests.toLocaleString()}
+                        </td>
+                        <td
+                          className={`px-4 py-2 text-sm text-right font-mono ${
+                            endpoint.errors > 0 ? "text-red-400" : ""
+                          }`}
+                        >
+                          <NumericFormat
+                            value={(endpoint.errors / endpoint.requests) * 100}
+                            displayType="text"
+                            decimalScale={1}
+                            fixedDecimalScale
+                            suffix="%"
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right font-mono">
+                          {endpoint.lastLatency !== null
+                            ? `${Math.round(endpoint.lastLatency)}ms`
+                            : "—"}{" "}
+                          /{" "}
+                          {endpoint.averageLatency !== null
+                            ? `${Math.round(endpoint.averageLatency)}ms`
+                            : "—"}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right font-mono">
+                          <Age
+                            now={now}
+                            at={endpoint.lastSuccessAt}
+                            warnAfter={10 * 60 * 1000}
+                            failAfter={30 * 60 * 1000}
+                          />
+                        </td>
+                        <td
+                          className="px-4 py-2 text-sm font-mono text-red-400"
+                          title={
+                            endpoint.lastErrorAt !== null
+                              ? new Date(endpoint.lastErrorAt).toISOString()
+                              : undefined
+                          }
+                        >
+                          {endpoint.lastError ?? ""}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </Section>
+
+            {/* Per-coin freshness */}
+            <Section title="Data Freshness">
+              <table className="w-full">
+                <thead className="bg-[#4EB345]/10">
+                  <tr>
+                    <HeaderCell>Coin</HeaderCell>
+                    {FRESHNESS_CHANNELS.map((channel) => (
+                      <HeaderCell key={channel} align="right">
+                        {channel}
+                      </HeaderCell>
+                    ))}
+                    <HeaderCell align="right">Backend sample</HeaderCell>
+                  </tr>
+                </thead>
+                <tbody>
+                  {watchlist.length === 0 ? (
+                    <EmptyRow
+                      colSpan={FRESHNESS_CHANNELS.length + 2}
+                      message="Watchlist is empty"
+                    />
+                  ) : (
+                    watchlist.map((coin) => (
+                      <CoinFreshnessRow
+                        key={coin}
+                        coin={coin}
+                        now={now}
+                        freshness={snapshot.feed.freshness[coin]}
+                      />
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </Section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
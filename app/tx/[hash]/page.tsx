@@ -0,0 +1,172 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { NumericFormat } from "react-number-format";
+import { useHyperliquidConnection } from "@/hooks/useHyperliquidChannel";
+import { useTradeLookup } from "@/hooks/useTradeLookup";
+import { ConnectionStatus } from "@/components/ConnectionStatus";
+import { GlobalSearch } from "@/components/GlobalSearch";
+import { NetworkSelector } from "@/components/NetworkSelector";
+import { DetailField } from "@/components/DetailField";
+import { formatDateTime, formatHash } from "@/libs/format";
+import { parseTradeLookup, searchHref } from "@/libs/search";
+import { tradeNotional } from "@/libs/trades";
+import type { HyperliquidTrade } from "@/types/hyperliquid";
+
+function AddressLink({ address }: { address: string }) {
+  return (
+    <Link
+      href={searchHref("address", address)}
+      className="hover:text-[#4EB345] transition-colors"
+    >
+      {address}
+    </Link>
+  );
+}
+
+function TradeDetails({ trade }: { trade: HyperliquidTrade }) {
+  return (
+    <div className="bg-zinc-900 rounded-lg border border-zinc-800 overflow-hidden">
+      <DetailField label="Coin">
+        <Link
+          href={searchHref("coin", trade.coin)}
+          className="font-semibold hover:text-[#4EB345] transition-colors"
+        >
+          {trade.coin}
+        </Link>
+      </DetailField>
+      <DetailField label="Side">
+        <span
+          className={`px-2 py-0.5 rounded text-xs font-medium ${
+            trade.side === "B"
+              ? "bg-green-500/20 text-green-400"
+              : "bg-red-500/20 text-red-400"
+          }`}
+        >
+          {trade.side === "B" ? "Buy" : "Sell"}
+        </span>
+      </DetailField>
+      {/* Price and size as received, without float rounding */}
+      <DetailField label="Price">${trade.px}</DetailField>
+      <DetailField label="Size">{trade.sz}</DetailField>
+      <DetailField label="Notional">
+        <NumericFormat
+          value={tradeNotional(trade)}
+          displayType="text"
+          prefix="$"
+          thousandSeparator=","
+          decimalScale={2}
+          fixedDecimalScale
+        />
+      </DetailField>
+      <DetailField label="Exchange time">
+        {formatDateTime(trade.time)}{" "}
+        <span className="text-zinc-500">
+          ({new Date(trade.time).toISOString()})
+        </span>
+      </DetailField>
+      <DetailField label="Trade ID">{trade.tid}</DetailField>
+      <DetailField label="Hash">{trade.hash || "—"}</DetailField>
+      <DetailField label="Buyer">
+        {trade.users ? <AddressLink address={trade.users[0]} /> : "Unknown"}
+      </DetailField>
+      <DetailField label="Seller">
+        {trade.users ? <AddressLink address={trade.users[1]} /> : "Unknown"}
+      </DetailField>
+    </div>
+  );
+}
+
+export default function TransactionPage() {
+  const params = useParams<{ hash: string }>();
+  const param = decodeURIComponent(params.hash);
+  const lookup = useMemo(() => parseTradeLookup(param), [param]);
+  const { connectionState, latency, reconnect, network } =
+    useHyperliquidConnection();
+  const { trades, source, isLoading, isConfirming, notFound, error, refetch } =
+    useTradeLookup(lookup);
+
+  return (
+    <div className="min-h-screen bg-black text-white relative">
+      {/* Animated background pattern */}
+      <div className="neon-bg"></div>
+
+      <div className="container mx-auto px-4 py-8 max-w-7xl relative z-10">
+        {/* Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <Link
+              href="/"
+              className="text-xs text-zinc-500 hover:text-[#4EB345] transition-colors"
+            >
+              ← Explorer
+            </Link>
+            <h1
+              className="text-2xl font-bold mt-1"
+              style={{ fontFamily: "var(--font-quantico)" }}
+            >
+              {lookup && "tid" in lookup ? "TRADE" : "TRANSACTION"}{" "}
+              <span className="text-[#4EB345] neon-glow-green font-mono">
+                {lookup && "hash" in lookup ? formatHash(lookup.hash) : param}
+              </span>
+            </h1>
+          </div>
+          <div className="flex items-center gap-3">
+            <NetworkSelector />
+            <GlobalSearch />
+            <ConnectionStatus
+              connectionState={connectionState}
+              latency={latency}
+              label={network.label}
+              onReconnect={reconnect}
+            />
+          </div>
+        </div>
+
+        {lookup === null ? (
+          <div className="bg-zinc-900 rounded-lg border border-zinc-800 px-6 py-12 text-center text-red-400">
+            &quot;{param}&quot; is not a transaction hash or trade id.
+          </div>
+        ) : isLoading ? (
+          <div className="bg-zinc-900 rounded-lg border border-zinc-800 px-6 py-12 text-center text-zinc-500">
+            Looking up trade...
+          </div>
+        ) : notFound ? (
+          <div className="bg-zinc-900 rounded-lg border border-zinc-800 px-6 py-12 text-center text-zinc-500">
+            No trade found for this {"tid" in lookup ? "trade id" : "hash"}.
+          </div>
+        ) : error ? (
+          <div className="bg-zinc-900 rounded-lg border border-zinc-800 px-6 py-12 text-center text-red-400">
+            Trade unavailable. The backend could not be reached.{" "}
+            <button
+              type="button"
+              onClick={() => refetch()}
+              className="underline hover:text-red-300"
+            >
+              Retry
+            </button>
+          </div>
+        ) : (
+          <>
+            <p className="mb-3 text-xs text-zinc-500">
+              {trades.length === 1 ? "1 fill" : `${trades.length} fills`} from{" "}
+              {source === "live"
+                ? "the live feed"
+                : source === "both"
+                ? "the live feed and the backend"
+                : "the backend"}
+              {isConfirming && ", checking the backend for more..."}
+            </p>
+            <div className="grid gap-4">
+              {trades.map((trade) => (
+                <TradeDetails key={trade.tid} trade={trade} />
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import { useState } from "react";
+import { NumericFormat } from "react-number-format";
+import { useCandles } from "@/hooks/useCandles";
+import { usePriceComparison } from "@/hooks/usePriceComparison";
+import { CANDLE_INTERVALS, type CandleInterval } from "@/libs/hyperliquidApi";
+import { formatTime } from "@/libs/format";
+
+const WIDTH = 800;
+const HEIGHT = 320;
+const PADDING = { top: 12, right: 72, bottom: 24, left: 8 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const Y_TICKS = 5;
+
+// Daily-ish candles span several days, so label them with dates
+function formatAxisTime(time: number, interval: CandleInterval) {
+  if (interval === "4h" || interval === "1d") {
+    return new Date(time).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+  }
+  return formatTime(time);
+}
+
+export function CandlestickChart({ coin }: { coin: string }) {
+  const [interval, setCandleInterval] = useState<CandleInterval>("15m");
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const { candles, isLoading, isError } = useCandles(coin, interval);
+  const { data: backendData } = usePriceComparison(coin);
+
+  const bars = candles.map((candle) => ({
+    t: candle.t,
+    T: candle.T,
+    o: parseFloat(candle.o),
+    h: parseFloat(candle.h),
+    l: parseFloat(candle.l),
+    c: parseFloat(candle.c),
+  }));
+
+  const startTime = bars[0]?.t ?? 0;
+  const endTime = bars[bars.length - 1]?.T ?? 0;
+
+  // Backend samples that fall inside the visible candle range
+  const overlay = (backendData?.prices ?? [])
+    .map((entry) => ({
+      time: new Date(entry.created_at).getTime(),
+      price: entry.price,
+    }))
+    .filter((point) => point.time >= startTime && point.time <= endTime);
+
+  const prices = [
+    ...bars.flatMap((bar) => [bar.h, bar.l]),
+    ...overlay.map((point) => point.price),
+  ];
+  const maxPrice = Math.max(...prices);
+  const minPrice = Math.min(...prices);
+  const range = maxPrice - minPrice || maxPrice * 0.01 || 1;
+
+  const slot = bars.length > 0 ? PLOT_WIDTH / bars.length : 0;
+  const xForIndex = (index: number) => PADDING.left + slot * (index + 0.5);
+  const xForTime = (time: number) =>
+    PADDING.left +
+    ((time - startTime) / Math.max(endTime - startTime, 1)) * PLOT_WIDTH;
+  const yForPrice = (price: number) =>
+    PADDING.top + ((maxPrice - price) / range) * PLOT_HEIGHT;
+
+  const hovered =
+    hoverIndex !== null ? bars[hoverIndex] : bars[bars.length - 1];
+  const decimals = maxPrice > 1000 ? 2 : maxPrice > 1 ? 4 : 6;
+
+  return (
+    <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-2">
+          {CANDLE_INTERVALS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => {
+                setCandleInterval(option);
+                setHoverIndex(null);
+              }}
+              className={`px-2 py-1 text-xs rounded border transition-colors ${
+                interval === option
+                  ? "text-[#4EB345] bg-[#4EB345]/10 border-[#4EB345]"
+                  : "text-zinc-400 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        {hovered && (
+          <div className="flex gap-3 text-xs font-mono text-zinc-400">
+            <span>{formatAxisTime(hovered.t, interval)}</span>
+            {(["o", "h", "l", "c"] as const).map((field) => (
+              <span key={field}>
+                {field.toUpperCase()}{" "}
+                <NumericFormat
+                  value={hovered[field]}
+                  displayType="text"
+                  thousandSeparator=","
+                  decimalScale={decimals}
+                  className="text-zinc-200"
+                />
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {isError ? (
+        <div className="py-24 text-center text-sm text-red-400">
+          Candles unavailable.
+        </div>
+      ) : bars.length === 0 ? (
+        <div className="py-24 text-center text-sm text-zinc-500">
+          {isLoading ? "Loading candles..." : "No candles for this interval"}
+        </div>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto"
+          onMouseLeave={() => setHoverIndex(null)}
+        >
+          {/* Price grid */}
+          {Array.from({ length: Y_TICKS }, (_, tick) => {
+            const price = maxPrice - (range * tick) / (Y_TICKS - 1);
+            const y = yForPrice(price);
+            return (
+              <g key={tick}>
+                <line
+                  x1={PADDING.left}
+                  x2={PADDING.left + PLOT_WIDTH}
+                  y1={y}
+                  y2={y}
+                  stroke="#27272a"
+                  strokeDasharray="2 4"
+                />
+                <text
+                  x={WIDTH - PADDING.right + 6}
+                  y={y + 4}
+                  fill="#71717a"
+                  fontSize="10"
+                >
+                  {price.toLocaleString("en-US", {
+                    maximumFractionDigits: decimals,
+                  })}
+                </text>
+              </g>
+            );
+          })}
+
+          {/* Candles */}
+          {bars.map((bar, index) => {
+            const x = xForIndex(index);
+            const rising = bar.c >= bar.o;
+            const color = rising ? "#4ade80" : "#f87171";
+            const bodyTop = yForPrice(Math.max(bar.o, bar.c));
+            const bodyHeight = Math.max(
+              Math.abs(yForPrice(bar.o) - yForPrice(bar.c)),
+              1
+            );
+            return (
+              <g key={bar.t} onMouseEnter={() => setHoverIndex(index)}>
+                <rect
+                  x={x - slot / 2}
+                  y={PADDING.top}
+                  width={slot}
+                  height={PLOT_HEIGHT}
+                  fill={hoverIndex === index ? "#ffffff0d" : "transparent"}
+                />
+                <line
+                  x1={x}
+                  x2={x}
+                  y1={yForPrice(bar.h)}
+                  y2={yForPrice(bar.l)}
+                  stroke={color}
+                />
+                <rect
+                  x={x - (slot * 0.7) / 2}
+                  y={bodyTop}
+                  width={slot * 0.7}
+                  height={bodyHeight}
+                  fill={color}
+                />
+              </g>
+            );
+          })}
+
+          {/* Backend price overlay */}
+          {overlay.length > 1 && (
+            <polyline
+              points={overlay
+                .map(
+                  (point) => `${xForTime(point.time)},${yForPrice(point.price)}`
+                )
+                .join(" ")}
+              fill="none"
+              stroke="var(--neon-cyan)"
+              strokeWidth={1.5}
+              pointerEvents="none"
+            />
+          )}
+          {overlay.map((point) => (
+            <circle
+              key={point.time}
+              cx={xForTime(point.time)}
+              cy={yForPrice(point.price)}
+              r={2.5}
+              fill="var(--neon-cyan)"
+              pointerEvents="none"
+            />
+          ))}
+
+          {/* Time axis */}
+          {Array.from(
+            new Set([0, Math.floor(bars.length / 2), bars.length - 1])
+          ).map((index) => (
+            <text
+              key={index}
+              x={xForIndex(index)}
+              y={HEIGHT - 6}
+              fill="#71717a"
+              fontSize="10"
+              textAnchor="middle"
+            >
+              {formatAxisTime(bars[index].t, interval)}
+            </text>
+          ))}
+        </svg>
+      )}
+
+      <div className="mt-2 flex gap-4 text-[10px] text-zinc-500">
+        <span className="flex items-center gap-1">
+          <span className="inline-block h-2 w-2 bg-green-400"></span>
+          <span className="inline-block h-2 w-2 bg-red-400"></span>
+          Hyperliquid candles
+        </span>
+        <span className="flex items-center gap-1">
+          <span
+            className="inline-block h-2 w-2 rounded-full"
+            style={{ background: "var(--neon-cyan)" }}
+          ></span>
+          Backend prices ({overlay.length} in range)
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ConnectionState } from "@/hooks/useWebsocket";
+
+// Mounted per scheduled retry so the clock starts fresh each time
+function RetryCountdown({
+  nextRetryAt,
+  attempt,
+}: {
+  nextRetryAt: number;
+  attempt: number;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const seconds = Math.max(Math.ceil((nextRetryAt - now) / 1000), 0);
+  return (
+    <>
+      Reconnecting in {seconds}s (attempt {attempt})
+    </>
+  );
+}
+
+function describe(state: ConnectionState, label: string) {
+  switch (state.status) {
+    case "open":
+      return label;
+    case "connecting":
+      return state.attempt > 0
+        ? `Connecting (attempt ${state.attempt})...`
+        : "Connecting...";
+    case "reconnecting":
+      return state.nextRetryAt !== null ? (
+        <RetryCountdown
+          key={state.nextRetryAt}
+          nextRetryAt={state.nextRetryAt}
+          attempt={state.attempt}
+        />
+      ) : (
+        `Reconnecting (attempt ${state.attempt})`
+      );
+    case "failed":
+      return "Connection failed";
+    case "closed":
+      return "Disconnected";
+    default:
+      return "Idle";
+  }
+}
+
+export function ConnectionStatus({
+  connectionState,
+  latency,
+  label,
+  onReconnect,
+}: {
+  connectionState: ConnectionState;
+  latency: number | null;
+  label: string;
+  onReconnect: () => void;
+}) {
+  const { status, lastCloseCode, lastCloseReason } = connectionState;
+  const isOpen = status === "open";
+  const canRetry =
+    status === "reconnecting" || status === "failed" || status === "closed";
+
+  const closeDetails =
+    lastCloseCode !== null
+      ? `Last close: ${lastCloseCode}${
+          lastCloseReason ? ` (${lastCloseReason})` : ""
+        }`
+      : undefined;
+
+  return (
+    <div
+      className="flex items-center gap-2 px-4 py-2 bg-zinc-900 rounded-lg border border-zinc-800"
+      title={closeDetails}
+    >
+      <div
+        className={`h-2 w-2 rounded-full ${
+          isOpen
+            ? "bg-[#4EB345] neon-glow-green"
+            : status === "connecting" || status === "reconnecting"
+            ? "bg-yellow-500"
+            : "bg-red-500"
+        }`}
+      ></div>
+      <span
+        className="text-xs text-zinc-300"
+        style={{ fontFamily: "var(--font-quantico)" }}
+      >
+        {describe(connectionState, label)}
+      </span>
+      {isOpen && latency !== null && (
+        <span
+          className="text-xs text-zinc-500 font-mono"
+          title="WebSocket round-trip latency"
+        >
+          {latency}ms
+        </span>
+      )}
+      {canRetry && (
+        <button
+          type="button"
+          onClick={onReconnect}
+          className="text-xs text-[#4EB345] hover:underline"
+        >
+          {status === "reconnecting" ? "Retry now" : "Reconnect"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+// Label/value row for detail pages (blocks, trades)
+export function DetailField({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex flex-col gap-1 border-t border-zinc-800 first:border-t-0 px-6 py-3 sm:flex-row sm:items-center sm:gap-6">
+      <span
+        className="w-32 shrink-0 text-xs text-zinc-400"
+        style={{ fontFamily: "var(--font-quantico)" }}
+      >
+        {label}
+      </span>
+      <span className="break-all text-sm font-mono text-zinc-200">
+        {children}
+      </span>
+    </div>
+  );
+}
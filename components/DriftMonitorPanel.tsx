@@ -0,0 +1,276 @@
+"use client";
+
+import { useState } from "react";
+import { thresholdsFor, useDriftSettings } from "@/hooks/useDriftSettings";
+import { useDriftIncidents } from "@/hooks/useDriftMonitor";
+import {
+  clearResolvedDriftIncidents,
+  formatDriftValue,
+} from "@/libs/driftMonitor";
+import { formatDateTime, formatDuration } from "@/libs/format";
+import type { DriftThresholds } from "@/types/hyperliquid";
+
+const MINUTE = 60 * 1000;
+
+// Empty input means "no override" for coins; defaults ignore it
+const parseInput = (value: string, scale = 1) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed * scale : undefined;
+};
+
+function ThresholdRow({
+  label,
+  coin,
+  thresholds,
+  overrides,
+  onChange,
+  onReset,
+}: {
+  label: string;
+  coin: string | null;
+  thresholds: DriftThresholds;
+  overrides: Partial<DriftThresholds> | undefined;
+  onChange: (coin: string | null, patch: Partial<DriftThresholds>) => void;
+  onReset?: () => void;
+}) {
+  const isDefault = coin === null;
+  const deviation = isDefault
+    ? thresholds.maxDeviationPercent
+    : overrides?.maxDeviationPercent;
+  const staleness = isDefault
+    ? thresholds.maxStalenessMs
+    : overrides?.maxStalenessMs;
+
+  return (
+    <tr className="border-t border-zinc-800">
+      <td className="px-4 py-2 text-sm font-semibold">{label}</td>
+      <td className="px-4 py-2 text-right">
+        <input
+          type="number"
+          min={0}
+          step={0.05}
+          value={deviation ?? ""}
+          placeholder={String(thresholds.maxDeviationPercent)}
+          onChange={(event) => {
+            const value = parseInput(event.target.value);
+            if (isDefault && value === undefined) return;
+            onChange(coin, { maxDeviationPercent: value });
+          }}
+          className="w-24 rounded border border-zinc-800 bg-zinc-950 px-2 py-1 text-right text-sm font-mono text-zinc-200 focus:border-[#4EB345] focus:outline-none"
+        />
+      </td>
+      <td className="px-4 py-2 text-right">
+        <input
+          type="number"
+          min={0}
+          step={1}
+          value={staleness !== undefined ? staleness / MINUTE : ""}
+          placeholder={String(thresholds.maxStalenessMs / MINUTE)}
+          onChange={(event) => {
+            const value = parseInput(event.target.value, MINUTE);
+            if (isDefault && value === undefined) return;
+            onChange(coin, { maxStalenessMs: value });
+          }}
+          className="w-24 rounded border border-zinc-800 bg-zinc-950 px-2 py-1 text-right text-sm font-mono text-zinc-200 focus:border-[#4EB345] focus:outline-none"
+        />
+      </td>
+      <td className="px-4 py-2 text-right">
+        {onReset && overrides && (
+          <button
+            type="button"
+            onClick={onReset}
+            className="text-xs text-zinc-500 hover:text-zinc-200 transition-colors"
+          >
+            Reset
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+export function DriftMonitorPanel({ watchlist }: { watchlist: string[] }) {
+  const { settings, setThresholds, resetThresholds, setNotify } =
+    useDriftSettings();
+  const incidents = useDriftIncidents();
+  const [notificationsBlocked, setNotificationsBlocked] = useState(false);
+
+  // Permission is only requested when the user opts in
+  const toggleNotify = async () => {
+    if (settings.notify) {
+      setNotify(false);
+      return;
+    }
+    if (typeof Notification === "undefined") {
+      setNotificationsBlocked(true);
+      return;
+    }
+    const result =
+      Notification.permission === "granted"
+        ? Notification.permission
+        : await Notification.requestPermission();
+    setNotificationsBlocked(result !== "granted");
+    setNotify(result === "granted");
+  };
+
+  const openCount = incidents.filter((i) => i.endedAt === null).length;
+
+  return (
+    <div className="bg-zinc-900 rounded-lg border border-zinc-800 overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 border-b border-zinc-800">
+        <span
+          className="text-xs text-zinc-400"
+          style={{ fontFamily: "var(--font-quantico)" }}
+        >
+          Indexer Drift{" "}
+          {openCount > 0 ? (
+            <span className="ml-2 rounded bg-red-500/20 px-2 py-0.5 text-red-400">
+              {openCount} open
+            </span>
+          ) : (
+            <span className="ml-2 text-zinc-500">All within limits</span>
+          )}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={toggleNotify}
+            title={
+              notificationsBlocked
+                ? "Notifications are blocked or unsupported in this browser"
+                : undefined
+            }
+            className={`px-2 py-1 text-xs rounded border transition-colors ${
+              settings.notify
+                ? "text-[#4EB345] bg-[#4EB345]/10 border-[#4EB345]"
+                : "text-zinc-400 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700"
+            }`}
+          >
+            Notifications{" "}
+            {settings.notify ? "on" : notificationsBlocked ? "blocked" : "off"}
+          </button>
+          <button
+            type="button"
+            onClick={clearResolvedDriftIncidents}
+            className="px-2 py-1 text-xs rounded border text-zinc-400 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700 transition-colors"
+          >
+            Clear resolved
+          </button>
+        </div>
+      </div>
+
+      <div className="grid gap-0 lg:grid-cols-2">
+        {/* Thresholds */}
+        <div className="overflow-x-auto lg:border-r border-zinc-800">
+          <table className="w-full">
+            <thead className="bg-[#4EB345]/10">
+              <tr>
+                <th className="px-4 py-2 text-left text-sm font-semibold text-zinc-300">
+                  Coin
+                </th>
+                <th className="px-4 py-2 text-right text-sm font-semibold text-zinc-300">
+                  Max deviation (%)
+                </th>
+                <th className="px-4 py-2 text-right text-sm font-semibold text-zinc-300">
+                  Max staleness (min)
+                </th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              <ThresholdRow
+                label="Default"
+                coin={null}
+                thresholds={settings.defaults}
+                overrides={undefined}
+                onChange={setThresholds}
+              />
+              {watchlist.map((coin) => (
+                <ThresholdRow
+                  key={coin}
+                  label={coin}
+                  coin={coin}
+                  thresholds={thresholdsFor(settings, coin)}
+                  overrides={settings.coins[coin]}
+                  onChange={setThresholds}
+                  onReset={() => resetThresholds(coin)}
+                />
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Incident log */}
+        <div className="overflow-x-auto max-h-[360px] overflow-y-auto">
+          <table className="w-full">
+            <thead className="bg-[#4EB345]/10 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 text-left text-sm font-semibold text-zinc-300">
+                  Coin
+                </th>
+                <th className="px-4 py-2 text-left text-sm font-semibold text-zinc-300">
+                  Breach
+                </th>
+                <th className="px-4 py-2 text-left text-sm font-semibold text-zinc-300">
+                  Started
+                </th>
+                <th className="px-4 py-2 text-left text-sm font-semibold text-zinc-300">
+                  Ended
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {incidents.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={4}
+                    className="px-6 py-12 text-center text-zinc-500"
+                  >
+                    No incidents recorded
+                  </td>
+                </tr>
+              ) : (
+                incidents.map((incident) => (
+                  <tr
+                    key={incident.id}
+                    className="border-t border-zinc-800 hover:bg-zinc-800/30 transition-colors"
+                  >
+                    <td className="px-4 py-2 text-sm font-semibold">
+                      {incident.coin}
+                    </td>
+                    <td className="px-4 py-2 text-sm font-mono">
+                      <span className="text-zinc-300">{incident.kind}</span>{" "}
+                      <span className="text-red-400">
+                        {formatDriftValue(incident.kind, incident.peak)}
+                      </span>
+                      <span className="text-zinc-500">
+                        {" "}
+                        / {formatDriftValue(incident.kind, incident.threshold)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-sm font-mono">
+                      {formatDateTime(incident.startedAt)}
+                    </td>
+                    <td className="px-4 py-2 text-sm font-mono">
+                      {incident.endedAt !== null ? (
+                        <span className="text-zinc-400">
+                          {formatDateTime(incident.endedAt)} (
+                          {formatDuration(
+                            incident.endedAt - incident.startedAt
+                          )}
+                          )
+                        </span>
+                      ) : (
+                        <span className="text-red-400">ongoing</span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
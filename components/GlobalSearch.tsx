@@ -0,0 +1,128 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useHyperliquidChannel } from "@/hooks/useHyperliquidChannel";
+import { useTradeBuffer } from "@/hooks/useTradeBuffer";
+import { formatHash } from "@/libs/format";
+import {
+  resolveSearch,
+  searchSuggestions,
+  type SearchKind,
+  type SearchSuggestion,
+} from "@/libs/search";
+
+const KIND_LABELS: Record<SearchKind, string> = {
+  hash: "Tx",
+  address: "Address",
+  block: "Block",
+  coin: "Coin",
+};
+
+const displayValue = (item: SearchSuggestion) =>
+  item.kind === "hash" || item.kind === "address"
+    ? formatHash(item.value)
+    : item.value;
+
+// Header search for hashes, addresses, block heights and coins
+export function GlobalSearch() {
+  const router = useRouter();
+  const trades = useTradeBuffer();
+  const [coins, setCoins] = useState<string[]>([]);
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const coinsKeyRef = useRef("");
+
+  // Same coin universe as the watchlist picker (skip @-prefixed spot ids)
+  useHyperliquidChannel({ type: "allMids" }, (data) => {
+    const universe = Object.keys(data.mids)
+      .filter((coin) => !coin.startsWith("@"))
+      .sort();
+    const key = universe.join(",");
+    if (key !== coinsKeyRef.current) {
+      coinsKeyRef.current = key;
+      setCoins(universe);
+    }
+  });
+
+  const suggestions = open ? searchSuggestions(query, coins, trades) : [];
+  const active = Math.min(highlighted, Math.max(suggestions.length - 1, 0));
+  const invalid = open && query.trim() !== "" && suggestions.length === 0;
+
+  const go = (item: SearchSuggestion | null) => {
+    if (!item) return;
+    setQuery("");
+    setOpen(false);
+    router.push(item.href);
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setHighlighted(Math.min(active + 1, suggestions.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setHighlighted(Math.max(active - 1, 0));
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      go(suggestions[active] ?? resolveSearch(query, coins));
+    } else if (event.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="search"
+        value={query}
+        placeholder="Search hash, address, block or coin"
+        spellCheck={false}
+        onChange={(event) => {
+          setQuery(event.target.value);
+          setHighlighted(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        className={`w-72 rounded border bg-zinc-950 px-3 py-1.5 text-xs font-mono text-zinc-200 placeholder:text-zinc-600 focus:outline-none ${
+          invalid
+            ? "border-red-500/50 focus:border-red-500"
+            : "border-zinc-800 focus:border-[#4EB345]"
+        }`}
+      />
+      {open && suggestions.length > 0 && (
+        <ul className="absolute right-0 z-20 mt-1 w-full overflow-hidden rounded border border-zinc-800 bg-zinc-900 shadow-lg">
+          {suggestions.map((item, index) => (
+            <li key={item.href}>
+              <button
+                type="button"
+                // Keep focus in the input so blur doesn't close the list first
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => go(item)}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs transition-colors ${
+                  index === active
+                    ? "bg-[#4EB345]/10 text-[#4EB345]"
+                    : "text-zinc-300"
+                }`}
+              >
+                <span className="w-14 shrink-0 text-[10px] uppercase text-zinc-500">
+                  {KIND_LABELS[item.kind]}
+                </span>
+                <span className="truncate font-mono">{displayValue(item)}</span>
+                {item.detail && (
+                  <span className="ml-auto shrink-0 text-[10px] text-zinc-500">
+                    {item.detail}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
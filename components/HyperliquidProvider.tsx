@@ -0,0 +1,161 @@
+"use client";
+
+import {
+  createContext,
+  Fragment,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
+import { usePathname } from "next/navigation";
+import { useSubscriptionManager } from "@/hooks/useSubscriptionManager";
+import { useNetwork, useNetworkResolved } from "@/hooks/useNetwork";
+import type { ConnectionState, WebSocketSend } from "@/hooks/useWebsocket";
+import type { SubscriptionManager } from "@/libs/subscriptionManager";
+import { messageRoutingKey } from "@/libs/hyperliquidMessages";
+import { recordConnectionState } from "@/libs/feedMetrics";
+import { clearTradeBuffer, recordTrades } from "@/libs/tradeBuffer";
+import {
+  NETWORK_PARAM,
+  networkCacheKey,
+  type NetworkConfig,
+} from "@/libs/network";
+import type { HyperliquidWebSocketMessage } from "@/types/hyperliquid";
+
+export type HyperliquidListener = (
+  message: HyperliquidWebSocketMessage
+) => void;
+
+export interface HyperliquidContextValue {
+  manager: SubscriptionManager;
+  send: WebSocketSend;
+  reconnect: () => void;
+  network: NetworkConfig;
+  connected: boolean;
+  connectionState: ConnectionState;
+  latency: number | null;
+  addListener: (
+    routingKey: string,
+    listener: HyperliquidListener
+  ) => () => void;
+}
+
+export const HyperliquidContext = createContext<HyperliquidContextValue | null>(
+  null
+);
+
+// Owns the single Hyperliquid socket and fans messages out to subscribers
+export function HyperliquidProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  // Pages render with the default network until hydration; only the
+  // connection waits for the real selection
+  const hydrated = useNetworkResolved();
+  const network = useNetwork();
+  const networkKey = networkCacheKey(network);
+  const pathname = usePathname();
+  const listenersRef = useRef<Map<string, Set<HyperliquidListener>>>(new Map());
+
+  const routeMessage = useCallback((message: HyperliquidWebSocketMessage) => {
+    // Errors the subscription manager couldn't attribute
+    if (message.channel === "error") {
+      console.error("WebSocket error:", message.data);
+      return;
+    }
+
+    // Buffered before fan-out so listeners see their trades in the buffer
+    if (message.channel === "trades") recordTrades(message.data);
+
+    const routingKey = messageRoutingKey(message);
+    if (!routingKey) return;
+    listenersRef.current.get(routingKey)?.forEach((listener) => {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error(`Error in ${routingKey} listener:`, error);
+      }
+    });
+  }, []);
+
+  const { send, reconnect, connected, connectionState, latency, manager } =
+    useSubscriptionManager(hydrated ? network.wsUrl : null, routeMessage, {
+      reconnect: true,
+      reconnectInterval: 3000,
+      maxReconnectAttempts: Infinity,
+      heartbeat: {
+        pingInterval: 20000,
+        pongTimeout: 10000,
+        maxIdleTime: 30000,
+      },
+    });
+
+  useEffect(() => {
+    recordConnectionState(connectionState);
+  }, [connectionState]);
+
+  // Trades from the previous network must not show up in lookups or search
+  useEffect(() => {
+    clearTradeBuffer();
+  }, [networkKey]);
+
+  // Keep the active network in the address bar across navigation
+  useEffect(() => {
+    if (!hydrated) return;
+    const params = new URLSearchParams(window.location.search);
+    if (params.get(NETWORK_PARAM) === network.id) return;
+    params.set(NETWORK_PARAM, network.id);
+    window.history.replaceState(
+      null,
+      "",
+      `${pathname}?${params}${window.location.hash}`
+    );
+  }, [hydrated, pathname, network.id]);
+
+  const addListener = useCallback(
+    (routingKey: string, listener: HyperliquidListener) => {
+      const listeners = listenersRef.current;
+      if (!listeners.has(routingKey)) listeners.set(routingKey, new Set());
+      listeners.get(routingKey)!.add(listener);
+
+      return () => {
+        const set = listeners.get(routingKey);
+        set?.delete(listener);
+        if (set?.size === 0) listeners.delete(routingKey);
+      };
+    },
+    []
+  );
+
+  const value = useMemo<HyperliquidContextValue>(
+    () => ({
+      manager,
+      send,
+      reconnect,
+      network,
+      connected,
+      connectionState,
+      latency,
+      addListener,
+    }),
+    [
+      manager,
+      send,
+      reconnect,
+      network,
+      connected,
+      connectionState,
+      latency,
+      addListener,
+    ]
+  );
+
+  // Pages remount on a switch so no state carries over between networks
+  return (
+    <HyperliquidContext.Provider value={value}>
+      <Fragment key={networkKey}>{children}</Fragment>
+    </HyperliquidContext.Provider>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useHyperliquidConnection } from "@/hooks/useHyperliquidChannel";
+import {
+  getCustomEndpoints,
+  selectNetwork,
+  setCustomEndpoints,
+  type NetworkEndpoints,
+  type NetworkId,
+} from "@/libs/network";
+
+const PRESETS: { id: Exclude<NetworkId, "custom">; label: string }[] = [
+  { id: "mainnet", label: "Mainnet" },
+  { id: "testnet", label: "Testnet" },
+];
+
+const ENDPOINT_FIELDS: {
+  key: keyof NetworkEndpoints;
+  label: string;
+  protocols: string[];
+}[] = [
+  { key: "wsUrl", label: "WebSocket", protocols: ["ws:", "wss:"] },
+  { key: "infoUrl", label: "Info API", protocols: ["http:", "https:"] },
+  { key: "apiUrl", label: "Backend", protocols: ["http:", "https:"] },
+];
+
+function isUrl(value: string, protocols: string[]) {
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Header dropdown for switching networks; custom endpoints are edited inline
+export function NetworkSelector() {
+  const { network } = useHyperliquidConnection();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<NetworkEndpoints | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("pointerdown", onPointerDown);
+    return () => document.removeEventListener("pointerdown", onPointerDown);
+  }, [open]);
+
+  const endpoints = draft ?? getCustomEndpoints();
+  const invalid = ENDPOINT_FIELDS.filter(
+    ({ key, protocols }) => !isUrl(endpoints[key].trim(), protocols)
+  ).map(({ key }) => key);
+
+  const toggle = () => {
+    setDraft(null);
+    setOpen(!open);
+  };
+
+  const choose = (id: NetworkId) => {
+    selectNetwork(id);
+    setOpen(false);
+  };
+
+  const applyCustom = () => {
+    if (invalid.length > 0) return;
+    setCustomEndpoints({
+      wsUrl: endpoints.wsUrl.trim(),
+      infoUrl: endpoints.infoUrl.trim(),
+      apiUrl: endpoints.apiUrl.trim(),
+    });
+    setOpen(false);
+  };
+
+  const optionClass = (active: boolean) =>
+    `px-2 py-1 text-xs rounded border transition-colors ${
+      active
+        ? "text-[#4EB345] bg-[#4EB345]/10 border-[#4EB345]"
+        : "text-zinc-400 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700"
+    }`;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={toggle}
+        title={network.wsUrl}
+        className={optionClass(network.id !== "mainnet")}
+      >
+        {network.label} ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full z-20 mt-2 w-80 bg-zinc-900 rounded-lg border border-zinc-800 px-4 py-3 shadow-lg">
+          <div className="flex gap-2">
+            {PRESETS.map((preset) => (
+              <button
+                key={preset.id}
+                type="button"
+                onClick={() => choose(preset.id)}
+                className={optionClass(network.id === preset.id)}
+              >
+                {preset.label}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => choose("custom")}
+              className={optionClass(network.id === "custom")}
+            >
+              Custom
+            </button>
+          </div>
+          <div className="mt-3 flex flex-col gap-2">
+            {ENDPOINT_FIELDS.map(({ key, label }) => (
+              <label
+                key={key}
+                className="flex flex-col gap-1 text-xs text-zinc-500"
+              >
+                {label}
+                <input
+                  type="text"
+                  value={endpoints[key]}
+                  onChange={(event) =>
+                    setDraft({ ...endpoints, [key]: event.target.value })
+                  }
+                  className={`rounded border bg-zinc-950 px-2 py-1 text-xs font-mono text-zinc-200 focus:outline-none ${
+                    invalid.includes(key)
+                      ? "border-red-500/60"
+                      : "border-zinc-800 focus:border-[#4EB345]"
+                  }`}
+                />
+              </label>
+            ))}
+            <button
+              type="button"
+              onClick={applyCustom}
+              disabled={invalid.length > 0}
+              className="self-end px-2 py-1 text-xs rounded border text-zinc-400 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Use custom endpoints
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
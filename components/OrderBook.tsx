@@ -0,0 +1,260 @@
+"use client";
+
+import { useState } from "react";
+import { NumericFormat } from "react-number-format";
+import { useHyperliquidChannel } from "@/hooks/useHyperliquidChannel";
+import {
+  BOOK_GROUPINGS,
+  groupingStep,
+  stepDecimals,
+  summarizeBook,
+} from "@/libs/orderBook";
+import type {
+  HyperliquidL2Book,
+  OrderBookLevel,
+  OrderBookSnapshot,
+} from "@/types/hyperliquid";
+
+const DEPTH = 15;
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 160;
+
+function LadderRow({
+  level,
+  side,
+  maxTotal,
+  decimals,
+}: {
+  level: OrderBookLevel;
+  side: "bid" | "ask";
+  maxTotal: number;
+  decimals: number;
+}) {
+  const width = maxTotal > 0 ? (level.total / maxTotal) * 100 : 0;
+  return (
+    <tr className="relative text-xs font-mono">
+      <td className="relative px-3 py-0.5">
+        <div
+          className={`absolute inset-y-0 right-0 ${
+            side === "bid" ? "bg-green-500/10" : "bg-red-500/10"
+          }`}
+          style={{ width: `${width}%` }}
+        ></div>
+        <span
+          className={`relative ${
+            side === "bid" ? "text-green-400" : "text-red-400"
+          }`}
+        >
+          <NumericFormat
+            value={level.price}
+            displayType="text"
+            thousandSeparator=","
+            decimalScale={decimals}
+            fixedDecimalScale
+          />
+        </span>
+      </td>
+      <td className="relative px-3 py-0.5 text-right text-zinc-300">
+        <NumericFormat
+          value={level.size}
+          displayType="text"
+          thousandSeparator=","
+          decimalScale={4}
+        />
+      </td>
+      <td className="relative px-3 py-0.5 text-right text-zinc-500">
+        <NumericFormat
+          value={level.total}
+          displayType="text"
+          thousandSeparator=","
+          decimalScale={4}
+        />
+      </td>
+    </tr>
+  );
+}
+
+function DepthChart({ snapshot }: { snapshot: OrderBookSnapshot }) {
+  const { bids, asks } = snapshot;
+  if (bids.length === 0 || asks.length === 0) return null;
+
+  const minPrice = bids[bids.length - 1].price;
+  const maxPrice = asks[asks.length - 1].price;
+  const priceRange = maxPrice - minPrice || 1;
+  const maxTotal = Math.max(
+    bids[bids.length - 1].total,
+    asks[asks.length - 1].total
+  );
+  const x = (price: number) => ((price - minPrice) / priceRange) * CHART_WIDTH;
+  const y = (total: number) =>
+    CHART_HEIGHT - (total / (maxTotal || 1)) * CHART_HEIGHT;
+
+  // Step outline from the inside of the book outwards, closed to the baseline
+  const area = (levels: OrderBookLevel[]) => {
+    const points: string[] = [`${x(levels[0].price)},${CHART_HEIGHT}`];
+    let previousTotal = 0;
+    levels.forEach((level) => {
+      points.push(`${x(level.price)},${y(previousTotal)}`);
+      points.push(`${x(level.price)},${y(level.total)}`);
+      previousTotal = level.total;
+    });
+    points.push(`${x(levels[levels.length - 1].price)},${CHART_HEIGHT}`);
+    return points.join(" ");
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      className="w-full h-40"
+      preserveAspectRatio="none"
+    >
+      <polygon
+        points={area(bids)}
+        fill="rgba(74, 222, 128, 0.15)"
+        stroke="#4ade80"
+        strokeWidth={1}
+        vectorEffect="non-scaling-stroke"
+      />
+      <polygon
+        points={area(asks)}
+        fill="rgba(248, 113, 113, 0.15)"
+        stroke="#f87171"
+        strokeWidth={1}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
+
+export function OrderBook({ coin }: { coin: string }) {
+  const [book, setBook] = useState<HyperliquidL2Book | null>(null);
+  const [groupIndex, setGroupIndex] = useState(0);
+
+  // Each grouping is its own subscription; switching releases the previous one
+  useHyperliquidChannel(
+    { type: "l2Book", coin, ...BOOK_GROUPINGS[groupIndex] },
+    (data) => {
+      if (data.coin === coin) setBook(data);
+    }
+  );
+
+  const referencePrice = book?.levels[0][0]
+    ? parseFloat(book.levels[0][0].px)
+    : 0;
+  const step = groupingStep(BOOK_GROUPINGS[groupIndex], referencePrice);
+  const decimals = step !== null ? stepDecimals(step) : 2;
+  const snapshot = book ? summarizeBook(book, DEPTH) : null;
+  const maxTotal = snapshot
+    ? Math.max(
+        snapshot.bids[snapshot.bids.length - 1]?.total ?? 0,
+        snapshot.asks[snapshot.asks.length - 1]?.total ?? 0
+      )
+    : 0;
+
+  return (
+    <div className="bg-zinc-900 rounded-lg border border-zinc-800 p-4">
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <div className="flex gap-2">
+          {BOOK_GROUPINGS.map((grouping, index) => {
+            const option = groupingStep(grouping, referencePrice);
+            return (
+              <button
+                key={index}
+                type="button"
+                onClick={() => setGroupIndex(index)}
+                className={`px-2 py-1 text-xs rounded border transition-colors ${
+                  groupIndex === index
+                    ? "text-[#4EB345] bg-[#4EB345]/10 border-[#4EB345]"
+                    : "text-zinc-400 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700"
+                }`}
+              >
+                {option !== null ? option.toFixed(stepDecimals(option)) : "—"}
+              </button>
+            );
+          })}
+        </div>
+        {snapshot?.spread != null && (
+          <div className="text-xs font-mono text-zinc-400">
+            Spread{" "}
+            <NumericFormat
+              value={snapshot.spread}
+              displayType="text"
+              thousandSeparator=","
+              decimalScale={6}
+              className="text-zinc-200"
+            />{" "}
+            (
+            <NumericFormat
+              value={snapshot.spreadBps ?? 0}
+              displayType="text"
+              decimalScale={2}
+              fixedDecimalScale
+              suffix=" bps"
+            />
+            )
+          </div>
+        )}
+      </div>
+
+      {!snapshot ? (
+        <div className="py-24 text-center text-sm text-zinc-500">
+          Waiting for order book...
+        </div>
+      ) : (
+        <>
+          <table className="w-full">
+            <thead>
+              <tr className="text-[10px] text-zinc-500">
+                <th className="px-3 py-1 text-left font-semibold">Price</th>
+                <th className="px-3 py-1 text-right font-semibold">Size</th>
+                <th className="px-3 py-1 text-right font-semibold">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {/* Asks reversed so the best ask sits next to the spread */}
+              {[...snapshot.asks].reverse().map((level) => (
+                <LadderRow
+                  key={`ask-${level.price}`}
+                  level={level}
+                  side="ask"
+                  maxTotal={maxTotal}
+                  decimals={decimals}
+                />
+              ))}
+              <tr>
+                <td
+                  colSpan={3}
+                  className="px-3 py-1 text-center text-xs font-mono text-zinc-400 border-y border-zinc-800"
+                >
+                  {snapshot.mid !== null ? (
+                    <NumericFormat
+                      value={snapshot.mid}
+                      displayType="text"
+                      thousandSeparator=","
+                      decimalScale={decimals + 1}
+                      prefix="Mid $"
+                    />
+                  ) : (
+                    "—"
+                  )}
+                </td>
+              </tr>
+              {snapshot.bids.map((level) => (
+                <LadderRow
+                  key={`bid-${level.price}`}
+                  level={level}
+                  side="bid"
+                  maxTotal={maxTotal}
+                  decimals={decimals}
+                />
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-4">
+            <DepthChart snapshot={snapshot} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+export function Sparkline({
+  values,
+  width = 120,
+  height = 28,
+  color = "#4EB345",
+}: {
+  values: number[];
+  width?: number;
+  height?: number;
+  color?: string;
+}) {
+  if (values.length < 2) return null;
+
+  const max = Math.max(...values, 1);
+  const step = width / (values.length - 1);
+  const points = values
+    .map(
+      (value, index) =>
+        `${(index * step).toFixed(1)},${(
+          height -
+          (value / max) * (height - 2) -
+          1
+        ).toFixed(1)}`
+    )
+    .join(" ");
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      height={height}
+      className="overflow-visible"
+    >
+      <polyline
+        points={points}
+        fill="none"
+        stroke={color}
+        strokeWidth={1.25}
+        strokeLinejoin="round"
+      />
+    </svg>
+  );
+}
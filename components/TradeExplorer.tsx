@@ -0,0 +1,312 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { TradesTable } from "@/components/TradesTable";
+import {
+  EMPTY_TRADE_FILTER,
+  filterTrades,
+  isFilterActive,
+  sortTrades,
+  TRADE_TIME_RANGES,
+  TRADE_TIME_RANGE_MS,
+  type TradeFilter,
+  type TradeSortKey,
+} from "@/libs/tradeFilters";
+import { exportTrades, type ExportFormat } from "@/libs/exportData";
+import type { HyperliquidTrade } from "@/types/hyperliquid";
+
+const PAGE_SIZES = [25, 50, 100];
+
+const SIDES: { value: HyperliquidTrade["side"] | null; label: string }[] = [
+  { value: null, label: "All" },
+  { value: "B", label: "Buy" },
+  { value: "A", label: "Sell" },
+];
+
+const parseBound = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const toggleClass = (active: boolean) =>
+  `px-2 py-1 text-xs rounded border transition-colors ${
+    active
+      ? "text-[#4EB345] bg-[#4EB345]/10 border-[#4EB345]"
+      : "text-zinc-400 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700"
+  }`;
+
+const inputClass =
+  "w-24 rounded border border-zinc-800 bg-zinc-950 px-2 py-1 text-right text-sm font-mono text-zinc-200 focus:border-[#4EB345] focus:outline-none";
+
+function RangeInputs({
+  label,
+  min,
+  max,
+  onChange,
+}: {
+  label: string;
+  min: number | null;
+  max: number | null;
+  onChange: (min: number | null, max: number | null) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1 text-xs text-zinc-500">
+      {label}
+      <input
+        type="number"
+        min={0}
+        value={min ?? ""}
+        placeholder="min"
+        onChange={(event) => onChange(parseBound(event.target.value), max)}
+        className={inputClass}
+      />
+      –
+      <input
+        type="number"
+        min={0}
+        value={max ?? ""}
+        placeholder="max"
+        onChange={(event) => onChange(min, parseBound(event.target.value))}
+        className={inputClass}
+      />
+    </label>
+  );
+}
+
+/**
+ * Filterable, sortable, paged view over the trade buffer. Pausing freezes
+ * the view while the buffer keeps filling, so rows stay put while reading.
+ */
+export function TradeExplorer({
+  trades,
+  emptyMessage,
+  stripeToggle,
+  isHighlighted,
+}: {
+  trades: HyperliquidTrade[]; // Newest first
+  emptyMessage: string;
+  stripeToggle?: boolean;
+  isHighlighted?: (trade: HyperliquidTrade) => boolean;
+}) {
+  const [filter, setFilter] = useState<TradeFilter>(EMPTY_TRADE_FILTER);
+  const [sort, setSort] = useState<{ key: TradeSortKey; ascending: boolean }>({
+    key: "time",
+    ascending: false,
+  });
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[1]);
+  const [frozen, setFrozen] = useState<HyperliquidTrade[] | null>(null);
+
+  const visible = frozen ?? trades;
+
+  // Trades that arrived after the pause; the whole buffer if it rolled past it
+  const newCount = useMemo(() => {
+    if (!frozen) return 0;
+    if (frozen.length === 0) return trades.length;
+    const index = trades.findIndex((trade) => trade.tid === frozen[0].tid);
+    return index === -1 ? trades.length : index;
+  }, [frozen, trades]);
+
+  const coins = useMemo(
+    () => Array.from(new Set(visible.map((trade) => trade.coin))).sort(),
+    [visible]
+  );
+
+  // Time ranges count back from the newest trade in view, so a paused view holds still
+  const latestTime = useMemo(
+    () => visible.reduce((latest, trade) => Math.max(latest, trade.time), 0),
+    [visible]
+  );
+
+  const rows = useMemo(
+    () =>
+      sortTrades(
+        filterTrades(visible, filter, latestTime),
+        sort.key,
+        sort.ascending
+      ),
+    [visible, filter, latestTime, sort]
+  );
+
+  const pageCount = Math.max(Math.ceil(rows.length / pageSize), 1);
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(
+    currentPage * pageSize,
+    (currentPage + 1) * pageSize
+  );
+
+  const updateFilter = (patch: Partial<TradeFilter>) => {
+    setFilter((prev) => ({ ...prev, ...patch }));
+    setPage(0);
+  };
+
+  const toggleSort = (key: TradeSortKey) => {
+    setSort((prev) =>
+      prev.key === key
+        ? { key, ascending: !prev.ascending }
+        : { key, ascending: key === "coin" || key === "side" }
+    );
+    setPage(0);
+  };
+
+  return (
+    <div>
+      <div className="mb-4 bg-zinc-900 rounded-lg border border-zinc-800 px-4 py-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={filter.coin ?? ""}
+            onChange={(event) =>
+              updateFilter({ coin: event.target.value || null })
+            }
+            className="rounded border border-zinc-800 bg-zinc-950 px-2 py-1 text-xs text-zinc-200 focus:border-[#4EB345] focus:outline-none"
+          >
+            <option value="">All coins</option>
+            {filter.coin && !coins.includes(filter.coin) && (
+              <option value={filter.coin}>{filter.coin}</option>
+            )}
+            {coins.map((coin) => (
+              <option key={coin} value={coin}>
+                {coin}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-1">
+            {SIDES.map((option) => (
+              <button
+                key={option.label}
+                type="button"
+                onClick={() => updateFilter({ side: option.value })}
+                className={toggleClass(filter.side === option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            {TRADE_TIME_RANGES.map((range) => (
+              <button
+                key={range}
+                type="button"
+                onClick={() =>
+                  updateFilter({ maxAge: TRADE_TIME_RANGE_MS[range] })
+                }
+                className={toggleClass(
+                  filter.maxAge === TRADE_TIME_RANGE_MS[range]
+                )}
+              >
+                {range}
+              </button>
+            ))}
+          </div>
+          <RangeInputs
+            label="Size"
+            min={filter.minSize}
+            max={filter.maxSize}
+            onChange={(minSize, maxSize) => updateFilter({ minSize, maxSize })}
+          />
+          <RangeInputs
+            label="Value $"
+            min={filter.minNotional}
+            max={filter.maxNotional}
+            onChange={(minNotional, maxNotional) =>
+              updateFilter({ minNotional, maxNotional })
+            }
+          />
+          {isFilterActive(filter) && (
+            <button
+              type="button"
+              onClick={() => {
+                setFilter(EMPTY_TRADE_FILTER);
+                setPage(0);
+              }}
+              className="text-xs text-zinc-500 hover:text-zinc-200 transition-colors"
+            >
+              Clear
+            </button>
+          )}
+          <div className="ml-auto flex items-center gap-2">
+            {frozen && newCount > 0 && (
+              <span className="rounded bg-[#4EB345]/20 px-2 py-0.5 text-xs text-[#4EB345]">
+                {newCount.toLocaleString()} new trades
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() => setFrozen(frozen ? null : trades)}
+              className={toggleClass(frozen !== null)}
+            >
+              {frozen ? "Resume" : "Pause"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <TradesTable
+        trades={pageRows}
+        stripeToggle={frozen ? false : stripeToggle}
+        isHighlighted={isHighlighted}
+        sort={sort}
+        onSort={toggleSort}
+        emptyMessage={
+          visible.length > 0 ? "No trades match the filters" : emptyMessage
+        }
+      />
+
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-3 text-xs text-zinc-500">
+        <span>
+          {rows.length.toLocaleString()}
+          {rows.length !== visible.length &&
+            ` of ${visible.length.toLocaleString()}`}{" "}
+          trades
+        </span>
+        <div className="flex items-center gap-2">
+          {(["csv", "json"] as ExportFormat[]).map((format) => (
+            <button
+              key={format}
+              type="button"
+              disabled={rows.length === 0}
+              onClick={() => exportTrades(rows, format)}
+              title="Export all trades matching the filters"
+              className={`${toggleClass(false)} disabled:opacity-40`}
+            >
+              Export {format.toUpperCase()}
+            </button>
+          ))}
+          <select
+            value={pageSize}
+            onChange={(event) => {
+              setPageSize(Number(event.target.value));
+              setPage(0);
+            }}
+            className="rounded border border-zinc-800 bg-zinc-950 px-2 py-1 text-xs text-zinc-200 focus:border-[#4EB345] focus:outline-none"
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size} / page
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            disabled={currentPage === 0}
+            onClick={() => setPage(currentPage - 1)}
+            className={`${toggleClass(false)} disabled:opacity-40`}
+          >
+            Prev
+          </button>
+          <span className="font-mono">
+            {currentPage + 1} / {pageCount}
+          </span>
+          <button
+            type="button"
+            disabled={currentPage >= pageCount - 1}
+            onClick={() => setPage(currentPage + 1)}
+            className={`${toggleClass(false)} disabled:opacity-40`}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
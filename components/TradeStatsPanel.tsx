@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { NumericFormat } from "react-number-format";
+import { formatCompactUsd } from "@/libs/format";
+import {
+  TRADE_STAT_WINDOWS,
+  type TradeStatWindow,
+} from "@/libs/tradeAnalytics";
+import type { CoinTradeStats } from "@/types/hyperliquid";
+
+type SortKey = "coin" | "volume" | "trades" | "vwap" | "imbalance" | "largest";
+
+const COLUMNS: { key: SortKey; label: string; align: "left" | "right" }[] = [
+  { key: "coin", label: "Coin", align: "left" },
+  { key: "volume", label: "Volume", align: "right" },
+  { key: "trades", label: "Trades", align: "right" },
+  { key: "vwap", label: "VWAP", align: "right" },
+  { key: "imbalance", label: "Buy / Sell", align: "right" },
+  { key: "largest", label: "Largest", align: "right" },
+];
+
+const largestNotional = (stats: CoinTradeStats) =>
+  stats.largestTrade
+    ? parseFloat(stats.largestTrade.px) * parseFloat(stats.largestTrade.sz)
+    : 0;
+
+function sortValue(stats: CoinTradeStats, key: SortKey): number | string {
+  switch (key) {
+    case "coin":
+      return stats.coin;
+    case "vwap":
+      return stats.vwap ?? 0;
+    case "largest":
+      return largestNotional(stats);
+    default:
+      return stats[key];
+  }
+}
+
+export function TradeStatsPanel({
+  stats,
+  statWindow,
+  onWindowChange,
+}: {
+  stats: CoinTradeStats[];
+  statWindow: TradeStatWindow;
+  onWindowChange: (statWindow: TradeStatWindow) => void;
+}) {
+  const [sortKey, setSortKey] = useState<SortKey>("volume");
+  const [ascending, setAscending] = useState(false);
+
+  const rows = [...stats].sort((a, b) => {
+    const left = sortValue(a, sortKey);
+    const right = sortValue(b, sortKey);
+    const order =
+      typeof left === "string"
+        ? left.localeCompare(right as string)
+        : left - (right as number);
+    return ascending ? order : -order;
+  });
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending((prev) => !prev);
+    } else {
+      setSortKey(key);
+      setAscending(key === "coin");
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900 rounded-lg border border-zinc-800 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+        <span
+          className="text-xs text-zinc-400"
+          style={{ fontFamily: "var(--font-quantico)" }}
+        >
+          Trade Flow
+        </span>
+        <div className="flex gap-2">
+          {TRADE_STAT_WINDOWS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onWindowChange(option)}
+              className={`px-2 py-1 text-xs rounded border transition-colors ${
+                statWindow === option
+                  ? "text-[#4EB345] bg-[#4EB345]/10 border-[#4EB345]"
+                  : "text-zinc-400 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700"
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-[#4EB345]/10">
+            <tr>
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  className={`px-4 py-2 text-sm font-semibold text-zinc-300 ${
+                    column.align === "right" ? "text-right" : "text-left"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => toggleSort(column.key)}
+                    className="hover:text-[#4EB345] transition-colors"
+                  >
+                    {column.label}
+                    {sortKey === column.key && (ascending ? " ↑" : " ↓")}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={COLUMNS.length}
+                  className="px-6 py-12 text-center text-zinc-500"
+                >
+                  No trades in the last {statWindow}
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => {
+                const buyShare =
+                  row.volume > 0 ? (row.buyVolume / row.volume) * 100 : 50;
+                return (
+                  <tr
+                    key={row.coin}
+                    className="border-t border-zinc-800 hover:bg-zinc-800/30 transition-colors"
+                  >
+                    <td className="px-4 py-2 text-sm font-semibold">
+                      <Link
+                        href={`/coin/${encodeURIComponent(row.coin)}`}
+                        className="hover:text-[#4EB345] transition-colors"
+                      >
+                        {row.coin}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right font-mono">
+                      {formatCompactUsd(row.volume)}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right font-mono">
+                      {row.trades.toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right font-mono">
+                      {row.vwap !== null ? (
+                        <NumericFormat
+                          value={row.vwap}
+                          displayType="text"
+                          prefix="$"
+                          thousandSeparator=","
+                          decimalScale={row.vwap > 1000 ? 2 : 6}
+                        />
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right font-mono">
+                      <div className="flex items-center justify-end gap-2">
+                        <div className="flex h-1.5 w-20 overflow-hidden rounded bg-red-500/60">
+                          <div
+                            className="bg-green-500/80"
+                            style={{ width: `${buyShare}%` }}
+                          ></div>
+                        </div>
+                        <span
+                          className={
+                            row.imbalance >= 0
+                              ? "text-green-400"
+                              : "text-red-400"
+                          }
+                        >
+                          <NumericFormat
+                            value={row.imbalance * 100}
+                            displayType="text"
+                            decimalScale={1}
+                            fixedDecimalScale
+                            prefix={row.imbalance >= 0 ? "+" : ""}
+                            suffix="%"
+                          />
+                        </span>
+                      </div>
+                    </td>
+                    <td
+                      className="px-4 py-2 text-sm text-right font-mono"
+                      title={
+                        row.largestTrade
+                          ? `${row.largestTrade.sz} @ ${row.largestTrade.px}`
+                          : undefined
+                      }
+                    >
+                      {row.largestTrade ? (
+                        <span
+                          className={
+                            row.largestTrade.side === "B"
+                              ? "text-green-400"
+                              : "text-red-400"
+                          }
+                        >
+                          {formatCompactUsd(largestNotional(row))}
+                        </span>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
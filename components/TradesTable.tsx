@@ -0,0 +1,166 @@
+"use client";
+
+import Link from "next/link";
+import { NumericFormat } from "react-number-format";
+import { formatCompactUsd, formatHash, formatTime } from "@/libs/format";
+import { tradeNotional } from "@/libs/trades";
+import { tradeHref } from "@/libs/search";
+import type { TradeSortKey } from "@/libs/tradeFilters";
+import type { HyperliquidTrade } from "@/types/hyperliquid";
+
+const COLUMNS: {
+  key: TradeSortKey | null;
+  label: string;
+  align: "left" | "right";
+}[] = [
+  { key: "time", label: "Time", align: "left" },
+  { key: "coin", label: "Coin", align: "left" },
+  { key: "side", label: "Side", align: "left" },
+  { key: "price", label: "Price", align: "right" },
+  { key: "size", label: "Size", align: "right" },
+  { key: "notional", label: "Value", align: "right" },
+  { key: null, label: "Hash", align: "left" },
+];
+
+export function TradesTable({
+  trades,
+  emptyMessage,
+  stripeToggle = false,
+  isHighlighted,
+  sort,
+  onSort,
+}: {
+  trades: HyperliquidTrade[];
+  emptyMessage: string;
+  stripeToggle?: boolean;
+  isHighlighted?: (trade: HyperliquidTrade) => boolean; // e.g. whale trades
+  // Headers become sort toggles when onSort is given; rows render as passed
+  sort?: { key: TradeSortKey; ascending: boolean };
+  onSort?: (key: TradeSortKey) => void;
+}) {
+  return (
+    <div className="bg-zinc-900 rounded-lg border border-zinc-800 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-[#4EB345]/10">
+            <tr>
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.label}
+                  className={`px-4 py-2 text-sm font-semibold text-zinc-300 ${
+                    column.align === "right" ? "text-right" : "text-left"
+                  }`}
+                >
+                  {onSort && column.key ? (
+                    <button
+                      type="button"
+                      onClick={() => onSort(column.key!)}
+                      className="hover:text-[#4EB345] transition-colors"
+                    >
+                      {column.label}
+                      {sort?.key === column.key &&
+                        (sort.ascending ? " ↑" : " ↓")}
+                    </button>
+                  ) : (
+                    column.label
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {trades.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={COLUMNS.length}
+                  className="px-6 py-12 text-center text-zinc-500"
+                >
+                  {emptyMessage}
+                </td>
+              </tr>
+            ) : (
+              trades.map((tx, index) => {
+                const isEven = (index + (stripeToggle ? 1 : 0)) % 2 === 0;
+                const highlighted = isHighlighted?.(tx) ?? false;
+                return (
+                  <tr
+                    key={`${tx.time}-${tx.tid}-${index}`}
+                    className={`border-t border-zinc-800 hover:bg-zinc-800/30 transition-colors ${
+                      highlighted
+                        ? "bg-yellow-500/10"
+                        : isEven
+                        ? "bg-zinc-900/50"
+                        : "bg-zinc-950/50"
+                    }`}
+                  >
+                    <td className="px-4 py-2 text-sm font-mono">
+                      {formatTime(tx.time)}
+                    </td>
+                    <td className="px-4 py-2 text-sm font-semibold">
+                      {tx.coin ? (
+                        <Link
+                          href={`/coin/${encodeURIComponent(tx.coin)}`}
+                          className="hover:text-[#4EB345] transition-colors"
+                        >
+                          {tx.coin}
+                        </Link>
+                      ) : (
+                        "N/A"
+                      )}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs font-medium ${
+                          tx.side === "B"
+                            ? "bg-green-500/20 text-green-400"
+                            : "bg-red-500/20 text-red-400"
+                        }`}
+                      >
+                        {tx.side === "B" ? "Buy" : "Sell"}
+                      </span>
+                      {highlighted && (
+                        <span className="ml-2 rounded bg-yellow-500/20 px-1.5 py-0.5 text-[10px] font-medium text-yellow-400">
+                          whale
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right font-mono">
+                      <NumericFormat
+                        value={tx.px}
+                        displayType="text"
+                        prefix="$"
+                        thousandSeparator=","
+                        decimalScale={2}
+                        fixedDecimalScale
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right font-mono">
+                      <NumericFormat
+                        value={tx.sz}
+                        displayType="text"
+                        thousandSeparator=","
+                        decimalScale={4}
+                        fixedDecimalScale
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right font-mono text-zinc-300">
+                      {formatCompactUsd(tradeNotional(tx))}
+                    </td>
+                    <td className="px-4 py-2 text-sm font-mono text-zinc-400">
+                      <Link
+                        href={tradeHref(tx)}
+                        className="hover:text-[#4EB345] transition-colors"
+                      >
+                        {tx.hash ? formatHash(tx.hash) : `TID: ${tx.tid}`}
+                      </Link>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
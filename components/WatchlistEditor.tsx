@@ -0,0 +1,74 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+
+export function WatchlistEditor({
+  watchlist,
+  availableCoins,
+  onAdd,
+  onRemove,
+}: {
+  watchlist: string[];
+  availableCoins: string[];
+  onAdd: (coin: string) => void;
+  onRemove: (coin: string) => void;
+}) {
+  const [query, setQuery] = useState("");
+
+  // Only offer coins reported by allMids that aren't already watched
+  const candidates = availableCoins.filter((coin) => !watchlist.includes(coin));
+  const normalized = query.trim().toUpperCase();
+  const match = candidates.find((coin) => coin.toUpperCase() === normalized);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!match) return;
+    onAdd(match);
+    setQuery("");
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2">
+      {watchlist.map((coin) => (
+        <span
+          key={coin}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-zinc-900 border border-zinc-800 text-zinc-300"
+        >
+          {coin}
+          <button
+            type="button"
+            onClick={() => onRemove(coin)}
+            className="text-zinc-500 hover:text-red-400 transition-colors"
+            aria-label={`Remove ${coin} from watchlist`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <input
+          list="watchlist-candidates"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder={
+            availableCoins.length > 0 ? "Add coin..." : "Loading coins..."
+          }
+          disabled={availableCoins.length === 0}
+          className="w-32 px-2 py-1 text-xs rounded bg-zinc-900 border border-zinc-800 text-zinc-200 placeholder:text-zinc-600 focus:outline-none focus:border-[#4EB345]/60"
+        />
+        <datalist id="watchlist-candidates">
+          {candidates.map((coin) => (
+            <option key={coin} value={coin} />
+          ))}
+        </datalist>
+        <button
+          type="submit"
+          disabled={!match}
+          className="px-2 py-1 text-xs rounded border border-[#4EB345]/40 text-[#4EB345] disabled:opacity-40 disabled:cursor-not-allowed hover:bg-[#4EB345]/10 transition-colors"
+        >
+          Add
+        </button>
+      </form>
+    </div>
+  );
+}
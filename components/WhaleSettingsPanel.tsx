@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { useWhaleSettings, whaleThresholdFor } from "@/hooks/useWhaleSettings";
+import { primeWhaleSound } from "@/libs/whaleTrades";
+
+// Empty input means "no override" for coins; the global threshold ignores it
+const parseInput = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+export function WhaleSettingsPanel({ watchlist }: { watchlist: string[] }) {
+  const { settings, setThreshold, setNotify, setSound } = useWhaleSettings();
+  const [notificationsBlocked, setNotificationsBlocked] = useState(false);
+
+  // Permission is only requested when the user opts in
+  const toggleNotify = async () => {
+    if (settings.notify) {
+      setNotify(false);
+      return;
+    }
+    if (typeof Notification === "undefined") {
+      setNotificationsBlocked(true);
+      return;
+    }
+    const result =
+      Notification.permission === "granted"
+        ? Notification.permission
+        : await Notification.requestPermission();
+    setNotificationsBlocked(result !== "granted");
+    setNotify(result === "granted");
+  };
+
+  const toggleSound = () => {
+    if (!settings.sound) primeWhaleSound();
+    setSound(!settings.sound);
+  };
+
+  const toggleClass = (active: boolean) =>
+    `px-2 py-1 text-xs rounded border transition-colors ${
+      active
+        ? "text-[#4EB345] bg-[#4EB345]/10 border-[#4EB345]"
+        : "text-zinc-400 border-zinc-800 hover:text-zinc-200 hover:border-zinc-700"
+    }`;
+
+  return (
+    <div className="mb-4 bg-zinc-900 rounded-lg border border-zinc-800 px-4 py-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span
+          className="text-xs text-zinc-400"
+          style={{ fontFamily: "var(--font-quantico)" }}
+        >
+          Min notional (USD)
+        </span>
+        <label className="flex items-center gap-1 text-xs text-zinc-500">
+          All
+          <input
+            type="number"
+            min={0}
+            step={1000}
+            value={settings.threshold}
+            onChange={(event) => {
+              const value = parseInput(event.target.value);
+              if (value !== undefined) setThreshold(null, value);
+            }}
+            className="w-28 rounded border border-zinc-800 bg-zinc-950 px-2 py-1 text-right text-sm font-mono text-zinc-200 focus:border-[#4EB345] focus:outline-none"
+          />
+        </label>
+        {watchlist.map((coin) => (
+          <label
+            key={coin}
+            className="flex items-center gap-1 text-xs text-zinc-500"
+          >
+            {coin}
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              value={settings.coins[coin] ?? ""}
+              placeholder={String(whaleThresholdFor(settings, coin))}
+              onChange={(event) =>
+                setThreshold(coin, parseInput(event.target.value))
+              }
+              className="w-28 rounded border border-zinc-800 bg-zinc-950 px-2 py-1 text-right text-sm font-mono text-zinc-200 focus:border-[#4EB345] focus:outline-none"
+            />
+          </label>
+        ))}
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            type="button"
+            onClick={toggleNotify}
+            title={
+              notificationsBlocked
+                ? "Notifications are blocked or unsupported in this browser"
+                : undefined
+            }
+            className={toggleClass(settings.notify)}
+          >
+            Notifications{" "}
+            {settings.notify ? "on" : notificationsBlocked ? "blocked" : "off"}
+          </button>
+          <button
+            type="button"
+            onClick={toggleSound}
+            className={toggleClass(settings.sound)}
+          >
+            Sound {settings.sound ? "on" : "off"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
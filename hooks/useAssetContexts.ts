@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { useNetwork, useNetworkResolved } from "@/hooks/useNetwork";
+import { fetchAssetContexts } from "@/libs/hyperliquidApi";
+import { networkCacheKey } from "@/libs/network";
+import type { HyperliquidAssetCtx } from "@/types/hyperliquid";
+
+// Seed for every perp; live updates per coin come from activeAssetCtx
+export function useAssetContexts() {
+  const network = useNetwork();
+  const resolved = useNetworkResolved();
+  return useQuery<Record<string, HyperliquidAssetCtx>, Error>({
+    queryKey: [networkCacheKey(network), "assetContexts"],
+    queryFn: fetchAssetContexts,
+    enabled: resolved,
+    refetchInterval: 60 * 1000, // Refetch every minute
+  });
+}
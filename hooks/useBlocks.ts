@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { useNetwork, useNetworkResolved } from "@/hooks/useNetwork";
+import { fetchBlock, fetchBlocks, isNotFoundError } from "@/libs/api";
+import { networkCacheKey } from "@/libs/network";
+import type { HyperliquidBlock } from "@/types/hyperliquid";
+
+export function useBlocks(limit: number) {
+  const network = useNetwork();
+  const resolved = useNetworkResolved();
+  return useQuery<HyperliquidBlock[], Error>({
+    queryKey: [networkCacheKey(network), "blocks", limit],
+    queryFn: () => fetchBlocks(limit),
+    enabled: resolved,
+    refetchInterval: 5 * 1000, // Refetch every 5 seconds
+  });
+}
+
+// Blocks never change once indexed, so there is nothing to refetch
+export function useBlock(height: number | null) {
+  const network = useNetwork();
+  const resolved = useNetworkResolved();
+  return useQuery<HyperliquidBlock, Error>({
+    queryKey: [networkCacheKey(network), "block", height],
+    queryFn: () => fetchBlock(height!),
+    enabled: resolved && height !== null,
+    staleTime: Infinity,
+    retry: (failureCount, error) => !isNotFoundError(error) && failureCount < 3,
+  });
+}
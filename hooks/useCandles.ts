@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  useHyperliquidChannel,
+  useHyperliquidConnection,
+} from "@/hooks/useHyperliquidChannel";
+import { useNetwork, useNetworkResolved } from "@/hooks/useNetwork";
+import {
+  CANDLE_INTERVAL_MS,
+  fetchCandleSnapshot,
+  type CandleInterval,
+} from "@/libs/hyperliquidApi";
+import { networkCacheKey } from "@/libs/network";
+import type { HyperliquidCandle } from "@/types/hyperliquid";
+
+const BACKFILL_CANDLES = 120;
+
+// Backfills candles over REST, then keeps the newest ones live from the WebSocket
+export function useCandles(coin: string, interval: CandleInterval) {
+  const network = useNetwork();
+  const { connected } = useHyperliquidConnection();
+  const resolved = useNetworkResolved();
+  const seriesKey = `${coin}:${interval}`;
+  const [live, setLive] = useState<{
+    seriesKey: string;
+    candles: Record<number, HyperliquidCandle>;
+  }>({ seriesKey, candles: {} });
+
+  const snapshot = useQuery<HyperliquidCandle[], Error>({
+    queryKey: [networkCacheKey(network), "candleSnapshot", coin, interval],
+    queryFn: () => {
+      const endTime = Date.now();
+      const startTime =
+        endTime - BACKFILL_CANDLES * CANDLE_INTERVAL_MS[interval];
+      return fetchCandleSnapshot(coin, interval, startTime, endTime);
+    },
+    enabled: resolved && !!coin,
+    staleTime: Infinity, // Live updates take over after the backfill
+  });
+
+  // Candles closed while disconnected never arrive live; backfill them again
+  const { refetch } = snapshot;
+  const hasConnectedRef = useRef(false);
+  useEffect(() => {
+    if (!connected) return;
+    if (hasConnectedRef.current && coin) refetch();
+    hasConnectedRef.current = true;
+  }, [coin, connected, refetch]);
+
+  useHyperliquidChannel({ type: "candle", coin, interval }, (candle) => {
+    if (candle.s !== coin || candle.i !== interval) return;
+    setLive((prev) => {
+      const candles = {
+        ...(prev.seriesKey === seriesKey ? prev.candles : {}),
+        [candle.t]: candle,
+      };
+      // Only the newest ones can ever be shown
+      Object.keys(candles)
+        .map(Number)
+        .sort((a, b) => b - a)
+        .slice(BACKFILL_CANDLES)
+        .forEach((t) => delete candles[t]);
+      return { seriesKey, candles };
+    });
+  });
+
+  // Live candles replace snapshot candles with the same open time
+  const liveCandles = live.seriesKey === seriesKey ? live.candles : {};
+  const merged: Record<number, HyperliquidCandle> = {};
+  snapshot.data?.forEach((candle) => {
+    merged[candle.t] = candle;
+  });
+  Object.values(liveCandles).forEach((candle) => {
+    merged[candle.t] = candle;
+  });
+  const candles = Object.values(merged)
+    .sort((a, b) => a.t - b.t)
+    .slice(-BACKFILL_CANDLES);
+
+  return {
+    candles,
+    isLoading: snapshot.isLoading,
+    isError: snapshot.isError,
+  };
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useSyncExternalStore } from "react";
+import { usePriceComparison } from "@/hooks/usePriceComparison";
+import { thresholdsFor, useDriftSettings } from "@/hooks/useDriftSettings";
+import { calculatePriceComparison } from "@/libs/priceComparison";
+import {
+  formatDriftValue,
+  getDriftIncidents,
+  measureDrift,
+  reportDrift,
+  subscribeDriftIncidents,
+} from "@/libs/driftMonitor";
+import type { DriftIncident } from "@/types/hyperliquid";
+
+const NO_INCIDENTS: DriftIncident[] = [];
+
+export function useDriftIncidents() {
+  return useSyncExternalStore(
+    subscribeDriftIncidents,
+    getDriftIncidents,
+    () => NO_INCIDENTS
+  );
+}
+
+function notifyDriftIncident(incident: DriftIncident) {
+  if (
+    typeof Notification === "undefined" ||
+    Notification.permission !== "granted"
+  ) {
+    return;
+  }
+  new Notification(`${incident.coin} indexer ${incident.kind}`, {
+    body: `${formatDriftValue(
+      incident.kind,
+      incident.peak
+    )} exceeds the ${formatDriftValue(
+      incident.kind,
+      incident.threshold
+    )} limit`,
+    tag: `drift-${incident.coin}-${incident.kind}`,
+  });
+}
+
+/**
+ * Checks a coin's live price against its newest backend sample on every
+ * price update and returns the coin's open incidents.
+ */
+export function useDriftMonitor(coin: string, wsPrice: number | undefined) {
+  const { settings } = useDriftSettings();
+  const { data: backendData } = usePriceComparison(coin);
+  const { maxDeviationPercent, maxStalenessMs } = thresholdsFor(settings, coin);
+  const { notify } = settings;
+
+  useEffect(() => {
+    if (!wsPrice) return;
+    const reading = measureDrift(
+      calculatePriceComparison(wsPrice, backendData, "latest")
+    );
+    const opened = reportDrift(coin, reading, {
+      maxDeviationPercent,
+      maxStalenessMs,
+    });
+    if (notify) opened.forEach(notifyDriftIncident);
+  }, [coin, wsPrice, backendData, maxDeviationPercent, maxStalenessMs, notify]);
+
+  const incidents = useDriftIncidents();
+  return incidents.filter(
+    (incident) => incident.coin === coin && incident.endedAt === null
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { DEFAULT_DRIFT_THRESHOLDS } from "@/libs/driftMonitor";
+import { createPersistedStore } from "@/libs/persistedStore";
+import type { DriftThresholds } from "@/types/hyperliquid";
+
+const STORAGE_KEY = "dexlite:drift";
+
+export interface DriftSettings {
+  defaults: DriftThresholds;
+  coins: Record<string, Partial<DriftThresholds>>; // Per-coin overrides
+  notify: boolean;
+}
+
+const DEFAULT_SETTINGS: DriftSettings = {
+  defaults: DEFAULT_DRIFT_THRESHOLDS,
+  coins: {},
+  notify: false,
+};
+
+const isThreshold = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+// Keeps only the thresholds that are valid numbers
+function parseThresholds(value: unknown): Partial<DriftThresholds> {
+  if (typeof value !== "object" || value === null) return {};
+  return Object.fromEntries(
+    (Object.keys(DEFAULT_DRIFT_THRESHOLDS) as (keyof DriftThresholds)[])
+      .map((name) => [name, (value as Record<string, unknown>)[name]])
+      .filter(([, threshold]) => isThreshold(threshold))
+  );
+}
+
+function parseSettings(value: unknown): DriftSettings {
+  if (typeof value !== "object" || value === null) return DEFAULT_SETTINGS;
+  const parsed = value as Record<string, unknown>;
+  const coins: DriftSettings["coins"] = {};
+  if (typeof parsed.coins === "object" && parsed.coins !== null) {
+    Object.entries(parsed.coins).forEach(([coin, overrides]) => {
+      const thresholds = parseThresholds(overrides);
+      if (Object.keys(thresholds).length > 0) coins[coin] = thresholds;
+    });
+  }
+  return {
+    defaults: {
+      ...DEFAULT_DRIFT_THRESHOLDS,
+      ...parseThresholds(parsed.defaults),
+    },
+    coins,
+    notify: parsed.notify === true,
+  };
+}
+
+const store = createPersistedStore(
+  STORAGE_KEY,
+  DEFAULT_SETTINGS,
+  parseSettings
+);
+
+export function thresholdsFor(
+  settings: DriftSettings,
+  coin: string
+): DriftThresholds {
+  return { ...settings.defaults, ...settings.coins[coin] };
+}
+
+export function useDriftSettings() {
+  const settings = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    store.getServerSnapshot
+  );
+
+  // Pass null as the coin to change the defaults; undefined clears a coin override
+  const setThresholds = useCallback(
+    (coin: string | null, patch: Partial<DriftThresholds>) => {
+      const current = store.getSnapshot();
+      const merged = {
+        ...(coin === null ? current.defaults : current.coins[coin]),
+        ...patch,
+      };
+      (Object.keys(merged) as (keyof DriftThresholds)[]).forEach((name) => {
+        if (merged[name] === undefined) delete merged[name];
+      });
+      store.write(
+        coin === null
+          ? { ...current, defaults: { ...current.defaults, ...merged } }
+          : { ...current, coins: { ...current.coins, [coin]: merged } }
+      );
+    },
+    []
+  );
+
+  const resetThresholds = useCallback((coin: string) => {
+    const current = store.getSnapshot();
+    if (!(coin in current.coins)) return;
+    const coins = { ...current.coins };
+    delete coins[coin];
+    store.write({ ...current, coins });
+  }, []);
+
+  const setNotify = useCallback((notify: boolean) => {
+    store.write({ ...store.getSnapshot(), notify });
+  }, []);
+
+  return { settings, setThresholds, resetThresholds, setNotify };
+}
@@ -0,0 +1,18 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  getDroppedFrameCounts,
+  subscribeDroppedFrameCounts,
+  type DroppedFrameCounts,
+} from "@/libs/hyperliquidMessages";
+
+const EMPTY_COUNTS: DroppedFrameCounts = {};
+
+export function useDroppedFrameCounts() {
+  return useSyncExternalStore(
+    subscribeDroppedFrameCounts,
+    getDroppedFrameCounts,
+    () => EMPTY_COUNTS
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { useContext, useEffect, useRef } from "react";
+import { HyperliquidContext } from "@/components/HyperliquidProvider";
+import { subscriptionKey } from "@/libs/subscriptionManager";
+import { subscriptionRoutingKey } from "@/libs/hyperliquidMessages";
+import type {
+  HyperliquidSubscription,
+  HyperliquidWebSocketMessage,
+} from "@/types/hyperliquid";
+
+type SubscribableMessage = Extract<
+  HyperliquidWebSocketMessage,
+  {
+    channel:
+      | "trades"
+      | "allMids"
+      | "l2Book"
+      | "candle"
+      | "userFills"
+      | "userFundings"
+      | "activeAssetCtx";
+  }
+>;
+
+export type HyperliquidChannelData = {
+  [M in SubscribableMessage as M["channel"]]: M["data"];
+};
+
+export function useHyperliquidConnection() {
+  const context = useContext(HyperliquidContext);
+  if (!context) {
+    throw new Error(
+      "useHyperliquidConnection must be used within a HyperliquidProvider"
+    );
+  }
+  return context;
+}
+
+/**
+ * Declares a set of subscriptions on the shared socket and receives their
+ * messages. Subscriptions are reference counted across consumers and
+ * unsubscribed when the last one unmounts.
+ */
+export function useHyperliquidSubscriptions(
+  subscriptions: HyperliquidSubscription[],
+  onMessage: (message: HyperliquidWebSocketMessage) => void
+) {
+  const { manager, addListener } = useHyperliquidConnection();
+  const keys = subscriptions.map(subscriptionKey).join(";");
+  const subscriptionsRef = useRef(subscriptions);
+  const onMessageRef = useRef(onMessage);
+
+  useEffect(() => {
+    subscriptionsRef.current = subscriptions;
+    onMessageRef.current = onMessage;
+  });
+
+  useEffect(() => {
+    const current = subscriptionsRef.current;
+    const listener = (message: HyperliquidWebSocketMessage) =>
+      onMessageRef.current(message);
+
+    const removeListeners = Array.from(
+      new Set(current.map(subscriptionRoutingKey)),
+      (routingKey) => addListener(routingKey, listener)
+    );
+    current.forEach((subscription) => manager.acquire(subscription));
+
+    return () => {
+      removeListeners.forEach((remove) => remove());
+      current.forEach((subscription) => manager.release(subscription));
+    };
+  }, [manager, addListener, keys]);
+}
+
+// Single-subscription form with data typed by channel; pass null to skip
+export function useHyperliquidChannel<T extends keyof HyperliquidChannelData>(
+  subscription: ({ type: T } & HyperliquidSubscription) | null,
+  onData: (data: HyperliquidChannelData[T]) => void
+) {
+  useHyperliquidSubscriptions(subscription ? [subscription] : [], (message) => {
+    if (subscription && message.channel === subscription.type) {
+      onData(
+        (message as SubscribableMessage).data as HyperliquidChannelData[T]
+      );
+    }
+  });
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  getActiveNetwork,
+  getServerNetwork,
+  subscribeNetwork,
+} from "@/libs/network";
+
+const noopSubscribe = () => () => {};
+
+export function useNetwork() {
+  return useSyncExternalStore(
+    subscribeNetwork,
+    getActiveNetwork,
+    getServerNetwork
+  );
+}
+
+// False while hydrating: the server renders the default network, and the
+// selection from storage or the URL only applies after. Queries wait for it
+// so nothing is fetched or cached under the wrong network.
+export function useNetworkResolved() {
+  return useSyncExternalStore(
+    noopSubscribe,
+    () => true,
+    () => false
+  );
+}
@@ -1,11 +1,56 @@
 import { useQuery } from "@tanstack/react-query";
+import { useNetwork, useNetworkResolved } from "@/hooks/useNetwork";
 import { fetchPriceComparison, type PriceComparisonResponse } from "@/libs/api";
+import { networkCacheKey } from "@/libs/network";
+import {
+  COMPARISON_WINDOW_MS,
+  type ComparisonWindow,
+} from "@/libs/priceComparison";
+
+// Extra history requested beyond the window so there is a sample on both sides of the target
+const RANGE_MARGIN = 60 * 60 * 1000;
+
+// Without a window (or for "latest") the backend's default range is enough
+function lookbackFor(comparisonWindow?: ComparisonWindow) {
+  return comparisonWindow && comparisonWindow !== "latest"
+    ? COMPARISON_WINDOW_MS[comparisonWindow] + RANGE_MARGIN
+    : null;
+}
+
+// Lets callers read cached results (e.g. for export) without mounting the hook
+export function priceComparisonQueryKey(
+  networkKey: string,
+  coin: string,
+  comparisonWindow?: ComparisonWindow
+) {
+  return [
+    networkKey,
+    "priceComparison",
+    coin,
+    lookbackFor(comparisonWindow),
+  ] as const;
+}
+
+export function usePriceComparison(
+  coin: string,
+  comparisonWindow?: ComparisonWindow
+) {
+  const network = useNetwork();
+  const resolved = useNetworkResolved();
+  const lookback = lookbackFor(comparisonWindow);
 
-export function usePriceComparison(coin: string) {
   return useQuery<PriceComparisonResponse, Error>({
-    queryKey: ["priceComparison", coin],
-    queryFn: () => fetchPriceComparison(coin),
-    enabled: !!coin,
+    queryKey: priceComparisonQueryKey(
+      networkCacheKey(network),
+      coin,
+      comparisonWindow
+    ),
+    queryFn: () =>
+      fetchPriceComparison(
+        coin,
+        lookback !== null ? { from: Date.now() - lookback } : undefined
+      ),
+    enabled: resolved && !!coin,
     refetchInterval: 5 * 60 * 1000, // Refetch every 5 minutes
   });
 }
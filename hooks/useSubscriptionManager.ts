@@ -0,0 +1,74 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { useWebsocket, type UseWebSocketOptions } from "@/hooks/useWebsocket";
+import {
+  createSubscriptionManager,
+  type SubscriptionManager,
+  type SubscriptionManagerOptions,
+} from "@/libs/subscriptionManager";
+import { parseHyperliquidMessage } from "@/libs/hyperliquidMessages";
+import { recordFeedMessage } from "@/libs/feedMetrics";
+import type { HyperliquidWebSocketMessage } from "@/types/hyperliquid";
+
+const EMPTY_SNAPSHOT: ReturnType<SubscriptionManager["getSnapshot"]> = [];
+
+// useWebsocket plus a subscription manager that owns subscribe/unsubscribe,
+// confirmation tracking, retries and replay after reconnect
+export function useSubscriptionManager(
+  url: string | null,
+  handler: (message: HyperliquidWebSocketMessage) => void,
+  options: UseWebSocketOptions & SubscriptionManagerOptions = {}
+) {
+  const { retryBaseDelay, maxRetryDelay, confirmTimeout, ...socketOptions } =
+    options;
+  const [manager] = useState(() =>
+    createSubscriptionManager({ retryBaseDelay, maxRetryDelay, confirmTimeout })
+  );
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  }, [handler]);
+
+  const routeMessage = useCallback(
+    (data: unknown) => {
+      // Malformed frames are counted and dropped before reaching handlers
+      const message = parseHyperliquidMessage(data);
+      if (!message) return;
+      recordFeedMessage(message);
+      if (manager.handleMessage(message)) return;
+      handlerRef.current(message);
+    },
+    [manager]
+  );
+
+  const socket = useWebsocket(url, routeMessage, socketOptions);
+  const { send, connected } = socket;
+
+  useEffect(() => {
+    if (connected) {
+      manager.attach(send);
+    } else {
+      manager.detach();
+    }
+  }, [manager, send, connected]);
+
+  useEffect(() => () => manager.dispose(), [manager]);
+
+  return { ...socket, manager };
+}
+
+export function useSubscriptionStatuses(manager: SubscriptionManager) {
+  return useSyncExternalStore(
+    manager.subscribe,
+    manager.getSnapshot,
+    () => EMPTY_SNAPSHOT
+  );
+}
@@ -0,0 +1,15 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { getBufferedTrades, subscribeTradeBuffer } from "@/libs/tradeBuffer";
+import type { HyperliquidTrade } from "@/types/hyperliquid";
+
+const NO_TRADES: HyperliquidTrade[] = [];
+
+export function useTradeBuffer() {
+  return useSyncExternalStore(
+    subscribeTradeBuffer,
+    getBufferedTrades,
+    () => NO_TRADES
+  );
+}
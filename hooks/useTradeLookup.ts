@@ -0,0 +1,82 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNetwork, useNetworkResolved } from "@/hooks/useNetwork";
+import { useTradeBuffer } from "@/hooks/useTradeBuffer";
+import { fetchTrades, isNotFoundError, type TradeLookup } from "@/libs/api";
+import { networkCacheKey } from "@/libs/network";
+import { findTrades } from "@/libs/tradeBuffer";
+import type { HyperliquidTrade } from "@/types/hyperliquid";
+
+// The buffer can't tell whether it holds every fill of a hash, and trades
+// replayed without users lack buyer and seller
+const isComplete = (lookup: TradeLookup, live: HyperliquidTrade[]) =>
+  "tid" in lookup &&
+  live.length > 0 &&
+  live.every((trade) => trade.users !== undefined);
+
+// Live records first, backend fills for trade ids the buffer doesn't have
+// or that it only has without users
+function mergeTrades(
+  live: HyperliquidTrade[],
+  backend: HyperliquidTrade[]
+): HyperliquidTrade[] {
+  const merged = new Map(live.map((trade) => [trade.tid, trade]));
+  backend.forEach((trade) => {
+    if (!merged.get(trade.tid)?.users) merged.set(trade.tid, trade);
+  });
+  return Array.from(merged.values()).sort(
+    (a, b) => a.time - b.time || a.tid - b.tid
+  );
+}
+
+/**
+ * Finds a trade in the live buffer and confirms it against the backend.
+ * Buffer hits render right away; the backend fills in whatever the buffer
+ * may be missing, such as other fills of the same hash.
+ */
+export function useTradeLookup(lookup: TradeLookup | null) {
+  const network = useNetwork();
+  const resolved = useNetworkResolved();
+  const buffered = useTradeBuffer();
+  const live = useMemo(
+    () => (lookup ? findTrades(buffered, lookup) : []),
+    [buffered, lookup]
+  );
+  const complete = lookup !== null && isComplete(lookup, live);
+
+  const query = useQuery<HyperliquidTrade[], Error>({
+    queryKey: [networkCacheKey(network), "trades", lookup],
+    queryFn: () => fetchTrades(lookup!),
+    enabled: resolved && lookup !== null && !complete,
+    staleTime: Infinity, // Executed trades don't change
+    retry: (failureCount, error) => !isNotFoundError(error) && failureCount < 3,
+  });
+
+  const backend = query.data ?? [];
+  if (live.length > 0) {
+    const trades = mergeTrades(live, backend);
+    return {
+      trades,
+      source: backend.length > 0 ? ("both" as const) : ("live" as const),
+      isLoading: false,
+      // Shown from the buffer while the backend lookup is still running
+      isConfirming: !complete && query.isFetching,
+      notFound: false,
+      error: null,
+      refetch: query.refetch,
+    };
+  }
+
+  const notFound = isNotFoundError(query.error) || query.data?.length === 0;
+  return {
+    trades: backend,
+    source: backend.length ? ("backend" as const) : null,
+    isLoading: query.isLoading,
+    isConfirming: false,
+    notFound,
+    error: notFound ? null : query.error,
+    refetch: query.refetch,
+  };
+}
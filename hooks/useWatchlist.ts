@@ -0,0 +1,45 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { closeDriftIncidents } from "@/libs/driftMonitor";
+import { createPersistedStore } from "@/libs/persistedStore";
+
+const STORAGE_KEY = "dexlite:watchlist";
+
+export const DEFAULT_WATCHLIST = ["BTC", "ETH", "SOL", "ARB", "AVAX"];
+
+function parseWatchlist(value: unknown): string[] {
+  return Array.isArray(value) && value.every((coin) => typeof coin === "string")
+    ? value
+    : DEFAULT_WATCHLIST;
+}
+
+const store = createPersistedStore(
+  STORAGE_KEY,
+  DEFAULT_WATCHLIST,
+  parseWatchlist
+);
+
+export function useWatchlist() {
+  const watchlist = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    store.getServerSnapshot
+  );
+
+  const addCoin = useCallback((coin: string) => {
+    const current = store.getSnapshot();
+    if (!coin || current.includes(coin)) return;
+    store.write([...current, coin]);
+  }, []);
+
+  const removeCoin = useCallback((coin: string) => {
+    const current = store.getSnapshot();
+    if (!current.includes(coin)) return;
+    store.write(current.filter((c) => c !== coin));
+    // Nothing monitors the coin any more; leaving the page doesn't count
+    closeDriftIncidents(coin);
+  }, []);
+
+  return { watchlist, addCoin, removeCoin };
+}
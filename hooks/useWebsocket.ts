@@ -2,6 +2,53 @@
 
 import { useEffect, useRef, useCallback, useState } from "react";
 
+export interface HeartbeatOptions {
+  pingInterval?: number; // ms between {"method":"ping"} frames
+  pongTimeout?: number; // ms to wait for a pong before reconnecting
+  maxIdleTime?: number; // ms without any inbound message before reconnecting
+}
+
+export type ConnectionStatus =
+  | "idle" // No URL yet
+  | "connecting" // Handshake in progress
+  | "open"
+  | "reconnecting" // Waiting for the next retry
+  | "closed" // Closed on purpose (disconnect() or reconnect disabled)
+  | "failed"; // Gave up after maxReconnectAttempts
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  attempt: number; // Current reconnect attempt, 0 for the first connection
+  nextRetryAt: number | null;
+  lastCloseCode: number | null;
+  lastCloseReason: string | null;
+  lastMessageAt: number | null;
+}
+
+export type DeliveryMode =
+  | "immediate" // Send now if open, otherwise drop
+  | "once" // Send now, or once when the socket next opens
+  | "persistent"; // Send now and again after every (re)connect
+
+export type DropReason =
+  | "not-open" // Immediate delivery while the socket was down
+  | "queue-full" // Oldest queued message evicted to keep the queue bounded
+  | "superseded" // Replaced by a newer message with the same key
+  | "send-failed"
+  | "closed"; // Discarded by disconnect(), a URL change or unmount
+
+export interface SendOptions {
+  delivery?: DeliveryMode; // Default "once"
+  key?: string; // Dedup key, defaults to the serialized message
+  onDrop?: (reason: DropReason) => void;
+}
+
+// Returns a function that withdraws the message if it is still queued
+export type WebSocketSend = (
+  message: Record<string, unknown>,
+  options?: SendOptions
+) => () => void;
+
 export interface UseWebSocketOptions {
   onMessage?: (data: unknown) => void;
   onError?: (error: Event) => void;
@@ -10,6 +57,59 @@ export interface UseWebSocketOptions {
   reconnect?: boolean;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
+  heartbeat?: HeartbeatOptions;
+  maxQueueSize?: number; // Per queue, for "once" and "persistent" messages
+  onDrop?: (message: Record<string, unknown>, reason: DropReason) => void;
+}
+
+interface QueuedMessage {
+  message: Record<string, unknown>;
+  onDrop?: (reason: DropReason) => void;
+}
+
+const HEARTBEAT_TICK = 1000;
+// lastMessageAt is reported at most this often to avoid a render per frame
+const LAST_MESSAGE_THROTTLE = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+
+const noop = () => {};
+
+const INITIAL_CONNECTION_STATE: ConnectionState = {
+  status: "idle",
+  attempt: 0,
+  nextRetryAt: null,
+  lastCloseCode: null,
+  lastCloseReason: null,
+  lastMessageAt: null,
+};
+
+function transmit(ws: WebSocket, message: Record<string, unknown>) {
+  try {
+    ws.send(JSON.stringify(message));
+    return true;
+  } catch (error) {
+    console.error("Error sending WebSocket message:", error);
+    return false;
+  }
+}
+
+// Detach handlers before closing so the close doesn't schedule a reconnect
+function closeSocket(ws: WebSocket, code?: number, reason?: string) {
+  try {
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onerror = null;
+    ws.onclose = null;
+    if (
+      ws.readyState === WebSocket.CONNECTING ||
+      ws.readyState === WebSocket.OPEN
+    ) {
+      ws.close(code, reason);
+    }
+  } catch {
+    // Ignore cleanup errors
+  }
 }
 
 export function useWebsocket(
@@ -24,7 +124,16 @@ export function useWebsocket(
     reconnect = true,
     reconnectInterval = 3000,
     maxReconnectAttempts = Infinity,
+    heartbeat,
+    maxQueueSize = DEFAULT_MAX_QUEUE_SIZE,
+    onDrop,
   } = options;
+  const heartbeatEnabled = !!heartbeat;
+  const {
+    pingInterval = 20000,
+    pongTimeout = 10000,
+    maxIdleTime = 60000,
+  } = heartbeat ?? {};
 
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -34,19 +143,152 @@ export function useWebsocket(
   const connectRef = useRef<(() => void) | null>(null);
   const isManualCloseRef = useRef(false);
   const isConnectingRef = useRef(false);
-  const messageQueueRef = useRef<Record<string, unknown>[]>([]);
-  const [connected, setConnected] = useState(false);
+  const pendingRef = useRef<Map<string, QueuedMessage>>(new Map());
+  const persistentRef = useRef<Map<string, QueuedMessage>>(new Map());
+  const onDropRef = useRef(onDrop);
+  const heartbeatTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const pongTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const pingSentAtRef = useRef<number | null>(null);
+  const lastPingAtRef = useRef(0);
+  const lastMessageAtRef = useRef(0);
+  const lastReportedMessageAtRef = useRef(0);
+  const [connectionState, setConnectionState] = useState<ConnectionState>(
+    INITIAL_CONNECTION_STATE
+  );
+  const [latency, setLatency] = useState<number | null>(null);
+
+  const updateConnectionState = useCallback(
+    (patch: Partial<ConnectionState>) => {
+      setConnectionState((prev) => ({ ...prev, ...patch }));
+    },
+    []
+  );
 
   // Update handler ref when it changes
   useEffect(() => {
     handlerRef.current = handler;
   }, [handler]);
 
+  useEffect(() => {
+    onDropRef.current = onDrop;
+  }, [onDrop]);
+
   // Update url ref when it changes
   useEffect(() => {
     urlRef.current = url;
   }, [url]);
 
+  const stopHeartbeat = useCallback(() => {
+    if (heartbeatTimerRef.current) {
+      clearInterval(heartbeatTimerRef.current);
+      heartbeatTimerRef.current = null;
+    }
+    if (pongTimeoutRef.current) {
+      clearTimeout(pongTimeoutRef.current);
+      pongTimeoutRef.current = null;
+    }
+    pingSentAtRef.current = null;
+  }, []);
+
+  const drop = useCallback((entry: QueuedMessage, reason: DropReason) => {
+    console.warn(`Dropped WebSocket message (${reason}):`, entry.message);
+    entry.onDrop?.(reason);
+    onDropRef.current?.(entry.message, reason);
+  }, []);
+
+  // Same key replaces the queued message; a full queue evicts its oldest
+  const enqueue = useCallback(
+    (queue: Map<string, QueuedMessage>, key: string, entry: QueuedMessage) => {
+      const existing = queue.get(key);
+      if (existing) {
+        queue.delete(key);
+        drop(existing, "superseded");
+      } else if (queue.size >= maxQueueSize) {
+        const [oldestKey, oldest] = Array.from(queue)[0];
+        queue.delete(oldestKey);
+        drop(oldest, "queue-full");
+      }
+      queue.set(key, entry);
+    },
+    [drop, maxQueueSize]
+  );
+
+  const discardQueues = useCallback(
+    (includePersistent: boolean) => {
+      const discarded = Array.from(pendingRef.current.values());
+      pendingRef.current.clear();
+      if (includePersistent) {
+        discarded.push(...persistentRef.current.values());
+        persistentRef.current.clear();
+      }
+      discarded.forEach((entry) => drop(entry, "closed"));
+    },
+    [drop]
+  );
+
+  const clearReconnectTimeout = useCallback(() => {
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+  }, []);
+
+  // Tear down the current socket without triggering a reconnect
+  const teardown = useCallback(() => {
+    isConnectingRef.current = false;
+    stopHeartbeat();
+    clearReconnectTimeout();
+    if (wsRef.current) {
+      closeSocket(wsRef.current);
+      wsRef.current = null;
+    }
+  }, [stopHeartbeat, clearReconnectTimeout]);
+
+  const scheduleReconnect = useCallback(() => {
+    if (isManualCloseRef.current || !reconnect || !urlRef.current) {
+      updateConnectionState({ status: "closed", nextRetryAt: null });
+      return;
+    }
+
+    if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
+      console.error("Max reconnection attempts reached");
+      updateConnectionState({ status: "failed", nextRetryAt: null });
+      return;
+    }
+
+    reconnectAttemptsRef.current++;
+    const delay = Math.min(
+      reconnectInterval * Math.pow(1.5, reconnectAttemptsRef.current - 1),
+      MAX_RECONNECT_DELAY
+    );
+    console.log(
+      `Scheduling reconnection in ${delay}ms (attempt ${reconnectAttemptsRef.current})...`
+    );
+    updateConnectionState({
+      status: "reconnecting",
+      attempt: reconnectAttemptsRef.current,
+      nextRetryAt: Date.now() + delay,
+    });
+
+    clearReconnectTimeout();
+    reconnectTimeoutRef.current = setTimeout(() => {
+      reconnectTimeoutRef.current = null;
+      if (
+        connectRef.current &&
+        !isManualCloseRef.current &&
+        !isConnectingRef.current
+      ) {
+        connectRef.current();
+      }
+    }, delay);
+  }, [
+    reconnect,
+    reconnectInterval,
+    maxReconnectAttempts,
+    updateConnectionState,
+    clearReconnectTimeout,
+  ]);
+
   const connect = useCallback(() => {
     if (!urlRef.current || isManualCloseRef.current) return;
 
@@ -60,71 +302,110 @@ export function useWebsocket(
       return;
     }
 
-    // Check max reconnect attempts
-    if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
-      console.error("Max reconnection attempts reached");
-      return;
-    }
-
     // Clean up any existing connection first, but only if it's not connecting
     if (wsRef.current) {
-      const currentState = wsRef.current.readyState;
-      // Only clean up if it's already open or closed, not if it's connecting
-      if (
-        currentState === WebSocket.OPEN ||
-        currentState === WebSocket.CLOSED
-      ) {
-        try {
-          wsRef.current.onopen = null;
-          wsRef.current.onmessage = null;
-          wsRef.current.onerror = null;
-          wsRef.current.onclose = null;
-          if (currentState === WebSocket.OPEN) {
-            wsRef.current.close();
-          }
-        } catch {
-          // Ignore cleanup errors
-        }
-        wsRef.current = null;
-      } else if (currentState === WebSocket.CONNECTING) {
+      if (wsRef.current.readyState === WebSocket.CONNECTING) {
         // If it's connecting, wait a bit and check again
         console.log("Previous connection still connecting, waiting...");
         return;
       }
+      closeSocket(wsRef.current);
+      wsRef.current = null;
     }
 
     isConnectingRef.current = true;
+    updateConnectionState({
+      status: "connecting",
+      attempt: reconnectAttemptsRef.current,
+      nextRetryAt: null,
+    });
 
     try {
       console.log(`Connecting to WebSocket: ${urlRef.current}`);
       const ws = new WebSocket(urlRef.current);
       wsRef.current = ws;
 
+      // A half-open socket never fires onclose, so drop it and run the
+      // normal close path ourselves to trigger a reconnect
+      const forceReconnect = (reason: string) => {
+        console.warn(`WebSocket stale (${reason}), forcing reconnect`);
+        const handleClose = ws.onclose;
+        closeSocket(ws, 4000, reason);
+        handleClose?.call(ws, new CloseEvent("close", { code: 4000, reason }));
+      };
+
       ws.onopen = () => {
         console.log("WebSocket connected successfully");
         isConnectingRef.current = false;
-        setConnected(true);
         reconnectAttemptsRef.current = 0;
+        updateConnectionState({
+          status: "open",
+          attempt: 0,
+          nextRetryAt: null,
+        });
 
-        // Send any queued messages
-        const queue = messageQueueRef.current;
-        messageQueueRef.current = [];
-        queue.forEach((msg) => {
-          try {
-            if (ws.readyState === WebSocket.OPEN) {
-              ws.send(JSON.stringify(msg));
-            }
-          } catch (error) {
-            console.error("Error sending queued message:", error);
-          }
+        // Persistent messages first so registrations precede queued requests
+        persistentRef.current.forEach(({ message }) => transmit(ws, message));
+        const pending = Array.from(pendingRef.current.values());
+        pendingRef.current.clear();
+        pending.forEach((entry) => {
+          if (!transmit(ws, entry.message)) drop(entry, "send-failed");
         });
 
+        if (heartbeatEnabled) {
+          const now = Date.now();
+          lastMessageAtRef.current = now;
+          lastPingAtRef.current = now;
+          heartbeatTimerRef.current = setInterval(() => {
+            if (ws.readyState !== WebSocket.OPEN) return;
+            const tick = Date.now();
+
+            if (tick - lastMessageAtRef.current > maxIdleTime) {
+              forceReconnect("No messages received");
+              return;
+            }
+
+            if (
+              pingSentAtRef.current === null &&
+              tick - lastPingAtRef.current >= pingInterval
+            ) {
+              if (!transmit(ws, { method: "ping" })) {
+                forceReconnect("Ping failed");
+                return;
+              }
+              pingSentAtRef.current = tick;
+              lastPingAtRef.current = tick;
+              pongTimeoutRef.current = setTimeout(
+                () => forceReconnect("Pong timeout"),
+                pongTimeout
+              );
+            }
+          }, HEARTBEAT_TICK);
+        }
+
         onOpen?.();
       };
 
       ws.onmessage = (event) => {
         try {
           const data = JSON.parse(event.data);
+          const now = Date.now();
+          lastMessageAtRef.current = now;
+
+          if (now - lastReportedMessageAtRef.current >= LAST_MESSAGE_THROTTLE) {
+            lastReportedMessageAtRef.current = now;
+            updateConnectionState({ lastMessageAt: now });
+          }
+
+          if (data?.channel === "pong" && pingSentAtRef.current !== null) {
+            setLatency(now - pingSentAtRef.current);
+            pingSentAtRef.current = null;
+            if (pongTimeoutRef.current) {
+              clearTimeout(pongTimeoutRef.current);
+              pongTimeoutRef.current = null;
+            }
+          }
+
           handlerRef.current(data);
         } catch (error) {
           console.error("Error parsing WebSocket message:", error, event.data);
@@ -134,7 +415,7 @@ export function useWebsocket(
       ws.onerror = (error) => {
         console.error("WebSocket error event:", error);
         isConnectingRef.current = false;
-        // Don't set connected to false here - let onclose handle it
+        // Don't change state here - let onclose handle it
         onError?.(error);
       };
 
@@ -145,10 +426,13 @@ export function useWebsocket(
           wasClean: event.wasClean,
         });
         isConnectingRef.current = false;
-        setConnected(false);
+        stopHeartbeat();
+        updateConnectionState({
+          lastCloseCode: event.code,
+          lastCloseReason: event.reason || null,
+        });
 
-        // Clear message queue on close to prevent stale messages
-        messageQueueRef.current = [];
+        // Queued messages are kept for the next open; the queue is bounded
 
         onClose?.();
 
@@ -157,65 +441,27 @@ export function useWebsocket(
           wsRef.current = null;
         }
 
-        // Only reconnect if not manually closed and reconnect is enabled
-        if (
-          !isManualCloseRef.current &&
-          reconnect &&
-          urlRef.current &&
-          connectRef.current &&
-          reconnectAttemptsRef.current < maxReconnectAttempts
-        ) {
-          reconnectAttemptsRef.current++;
-          const delay = Math.min(
-            reconnectInterval * Math.pow(1.5, reconnectAttemptsRef.current - 1),
-            30000
-          );
-          console.log(
-            `Scheduling reconnection in ${delay}ms (attempt ${reconnectAttemptsRef.current})...`
-          );
-          reconnectTimeoutRef.current = setTimeout(() => {
-            if (
-              connectRef.current &&
-              !isManualCloseRef.current &&
-              !isConnectingRef.current
-            ) {
-              connectRef.current();
-            }
-          }, delay);
-        }
+        scheduleReconnect();
       };
     } catch (error) {
       console.error("Error creating WebSocket:", error);
       isConnectingRef.current = false;
-      setConnected(false);
 
       // Schedule reconnection on error
-      if (
-        !isManualCloseRef.current &&
-        reconnect &&
-        urlRef.current &&
-        connectRef.current &&
-        reconnectAttemptsRef.current < maxReconnectAttempts
-      ) {
-        reconnectAttemptsRef.current++;
-        const delay = Math.min(
-          reconnectInterval * Math.pow(1.5, reconnectAttemptsRef.current - 1),
-          30000
-        );
-        reconnectTimeoutRef.current = setTimeout(() => {
-          if (connectRef.current && !isManualCloseRef.current) {
-            connectRef.current();
-          }
-        }, delay);
-      }
+      scheduleReconnect();
     }
   }, [
     onError,
     onOpen,
     onClose,
-    reconnect,
-    reconnectInterval,
-    maxReconnectAttempts,
+    heartbeatEnabled,
+    drop,
+    pingInterval,
+    pongTimeout,
+    maxIdleTime,
+    stopHeartbeat,
+    scheduleReconnect,
+    updateConnectionState,
   ]);
 
   // Store connect function in ref
@@ -223,63 +469,61 @@ export function useWebsocket(
     connectRef.current = connect;
   }, [connect]);
 
-  const send = useCallback((message: Record<string, unknown>) => {
-    const ws = wsRef.current;
-
-    if (!ws) {
-      // If no WebSocket exists yet, queue the message
-      messageQueueRef.current.push(message);
-      return;
-    }
-
-    if (ws.readyState === WebSocket.OPEN) {
-      try {
-        ws.send(JSON.stringify(message));
-      } catch (error) {
-        console.error("Error sending WebSocket message:", error);
-        // Queue message for retry if connection is still open
-        if (ws.readyState === WebSocket.OPEN) {
-          messageQueueRef.current.push(message);
-        }
+  const send = useCallback<WebSocketSend>(
+    (message, sendOptions = {}) => {
+      const {
+        delivery = "once",
+        key = JSON.stringify(message),
+        onDrop: onMessageDrop,
+      } = sendOptions;
+      const entry: QueuedMessage = { message, onDrop: onMessageDrop };
+      const ws =
+        wsRef.current?.readyState === WebSocket.OPEN ? wsRef.current : null;
+
+      if (delivery === "persistent") {
+        enqueue(persistentRef.current, key, entry);
+        // A failed send here is retried by the next open
+        if (ws) transmit(ws, message);
+        return () => {
+          if (persistentRef.current.get(key) === entry) {
+            persistentRef.current.delete(key);
+          }
+        };
       }
-    } else if (ws.readyState === WebSocket.CONNECTING) {
-      // Queue message if connection is in progress
-      messageQueueRef.current.push(message);
-    } else {
-      // Connection is closed or closing, queue for when it reconnects
-      messageQueueRef.current.push(message);
-    }
-  }, []);
 
-  const disconnect = useCallback(() => {
-    isManualCloseRef.current = true;
-    isConnectingRef.current = false;
+      if (ws && transmit(ws, message)) return noop;
 
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
+      if (delivery === "immediate") {
+        drop(entry, ws ? "send-failed" : "not-open");
+        return noop;
+      }
 
-    if (wsRef.current) {
-      try {
-        wsRef.current.onopen = null;
-        wsRef.current.onmessage = null;
-        wsRef.current.onerror = null;
-        wsRef.current.onclose = null;
-        if (
-          wsRef.current.readyState === WebSocket.CONNECTING ||
-          wsRef.current.readyState === WebSocket.OPEN
-        ) {
-          wsRef.current.close();
+      enqueue(pendingRef.current, key, entry);
+      return () => {
+        if (pendingRef.current.get(key) === entry) {
+          pendingRef.current.delete(key);
         }
-      } catch {
-        // Ignore cleanup errors
-      }
-      wsRef.current = null;
-    }
+      };
+    },
+    [enqueue, drop]
+  );
 
-    setConnected(false);
-  }, []);
+  const disconnect = useCallback(() => {
+    isManualCloseRef.current = true;
+    teardown();
+    // Persistent messages stay registered for reconnect()
+    discardQueues(false);
+    updateConnectionState({ status: "closed", nextRetryAt: null });
+  }, [teardown, discardQueues, updateConnectionState]);
+
+  // Restart after disconnect(), a failure, or to skip a pending retry delay
+  const reconnectNow = useCallback(() => {
+    if (!urlRef.current) return;
+    teardown();
+    isManualCloseRef.current = false;
+    reconnectAttemptsRef.current = 0;
+    connect();
+  }, [teardown, connect]);
 
   // Main connection effect - only runs when url changes
   useEffect(() => {
@@ -287,73 +531,33 @@ export function useWebsocket(
     isManualCloseRef.current = false;
     reconnectAttemptsRef.current = 0;
 
-    if (url && !isManualCloseRef.current) {
-      // Small delay to ensure component is fully mounted
-      const timeoutId = setTimeout(() => {
-        if (!isManualCloseRef.current && urlRef.current === url) {
-          connect();
-        }
-      }, 100);
+    // Without a URL the state stays "idle"
+    if (!url) return;
 
-      return () => {
-        clearTimeout(timeoutId);
-        // Only disconnect if this is a cleanup (not a URL change)
-        if (urlRef.current !== url) {
-          isManualCloseRef.current = true;
-          if (reconnectTimeoutRef.current) {
-            clearTimeout(reconnectTimeoutRef.current);
-            reconnectTimeoutRef.current = null;
-          }
-          if (wsRef.current) {
-            try {
-              wsRef.current.onopen = null;
-              wsRef.current.onmessage = null;
-              wsRef.current.onerror = null;
-              wsRef.current.onclose = null;
-              if (
-                wsRef.current.readyState === WebSocket.CONNECTING ||
-                wsRef.current.readyState === WebSocket.OPEN
-              ) {
-                wsRef.current.close();
-              }
-            } catch {
-              // Ignore cleanup errors
-            }
-            wsRef.current = null;
-          }
-          setConnected(false);
-        }
-      };
-    }
+    // Small delay to ensure component is fully mounted
+    const timeoutId = setTimeout(() => {
+      if (!isManualCloseRef.current && urlRef.current === url) {
+        connect();
+      }
+    }, 100);
 
-    // Cleanup on unmount
+    // Cleanup on unmount or before connecting to a new URL
     return () => {
+      clearTimeout(timeoutId);
       isManualCloseRef.current = true;
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-        reconnectTimeoutRef.current = null;
-      }
-      if (wsRef.current) {
-        try {
-          wsRef.current.onopen = null;
-          wsRef.current.onmessage = null;
-          wsRef.current.onerror = null;
-          wsRef.current.onclose = null;
-          if (
-            wsRef.current.readyState === WebSocket.CONNECTING ||
-            wsRef.current.readyState === WebSocket.OPEN
-          ) {
-            wsRef.current.close();
-          }
-        } catch {
-          // Ignore cleanup errors
-        }
-        wsRef.current = null;
-      }
-      setConnected(false);
+      teardown();
+      discardQueues(true);
+      setConnectionState(INITIAL_CONNECTION_STATE);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [url]);
 
-  return { send, disconnect, connected };
+  return {
+    send,
+    disconnect,
+    reconnect: reconnectNow,
+    connected: connectionState.status === "open",
+    connectionState,
+    latency,
+  };
 }
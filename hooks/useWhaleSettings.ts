@@ -0,0 +1,85 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { createPersistedStore } from "@/libs/persistedStore";
+import { DEFAULT_WHALE_THRESHOLD } from "@/libs/whaleTrades";
+
+const STORAGE_KEY = "dexlite:whales";
+
+export interface WhaleSettings {
+  threshold: number; // Global notional threshold in USD
+  coins: Record<string, number>; // Per-coin overrides
+  notify: boolean;
+  sound: boolean;
+}
+
+const DEFAULT_SETTINGS: WhaleSettings = {
+  threshold: DEFAULT_WHALE_THRESHOLD,
+  coins: {},
+  notify: false,
+  sound: false,
+};
+
+const isThreshold = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+function parseSettings(value: unknown): WhaleSettings {
+  if (typeof value !== "object" || value === null) return DEFAULT_SETTINGS;
+  const parsed = value as Partial<WhaleSettings>;
+  return {
+    threshold: isThreshold(parsed.threshold)
+      ? parsed.threshold
+      : DEFAULT_WHALE_THRESHOLD,
+    coins: Object.fromEntries(
+      Object.entries(parsed.coins ?? {}).filter(([, threshold]) =>
+        isThreshold(threshold)
+      )
+    ),
+    notify: parsed.notify === true,
+    sound: parsed.sound === true,
+  };
+}
+
+const store = createPersistedStore(
+  STORAGE_KEY,
+  DEFAULT_SETTINGS,
+  parseSettings
+);
+
+export function whaleThresholdFor(settings: WhaleSettings, coin: string) {
+  return settings.coins[coin] ?? settings.threshold;
+}
+
+export function useWhaleSettings() {
+  const settings = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    store.getServerSnapshot
+  );
+
+  // Pass null as the coin to change the global threshold; undefined clears a coin override
+  const setThreshold = useCallback(
+    (coin: string | null, threshold: number | undefined) => {
+      const current = store.getSnapshot();
+      if (coin === null) {
+        if (threshold !== undefined) store.write({ ...current, threshold });
+        return;
+      }
+      const coins = { ...current.coins };
+      if (threshold === undefined) delete coins[coin];
+      else coins[coin] = threshold;
+      store.write({ ...current, coins });
+    },
+    []
+  );
+
+  const setNotify = useCallback((notify: boolean) => {
+    store.write({ ...store.getSnapshot(), notify });
+  }, []);
+
+  const setSound = useCallback((sound: boolean) => {
+    store.write({ ...store.getSnapshot(), sound });
+  }, []);
+
+  return { settings, setThreshold, setNotify, setSound };
+}
@@ -1,16 +1,32 @@
-import axios from "axios";
-
-// Backend API base URL - can be configured via environment variable
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080";
+import axios, { isAxiosError } from "axios";
+import { instrumentClient } from "@/libs/apiMetrics";
+import { getActiveNetwork } from "@/libs/network";
+import type { HyperliquidBlock, HyperliquidTrade } from "@/types/hyperliquid";
 
 const apiClient = axios.create({
-  baseURL: API_BASE_URL,
   headers: {
     "Content-Type": "application/json",
   },
   timeout: 10000,
 });
 
+// Each network has its own backend; resolved per request so a switch applies
+// to the next call
+apiClient.interceptors.request.use((config) => {
+  const network = getActiveNetwork();
+  if (network.apiUrl === null) {
+    throw new Error(`No backend is configured for ${network.label}`);
+  }
+  config.baseURL = network.apiUrl;
+  return config;
+});
+
+instrumentClient(apiClient, (config) =>
+  (config.url ?? "")
+    .replace(/^\/api\/prices\/[^/?]+/, "/api/prices/:coin")
+    .replace(/^\/api\/blocks\/\d+/, "/api/blocks/:height")
+);
+
 // Backend price response types
 export interface BackendPriceResponse {
   coin: string;
@@ -24,14 +40,107 @@ export interface PriceComparisonResponse {
   count: number;
 }
 
-// Fetcher function for React Query
+// Backend block response types
+export interface BackendBlockResponse {
+  height: number;
+  hash: string;
+  time: string;
+  tx_count: number;
+}
+
+export interface BlocksResponse {
+  blocks: BackendBlockResponse[];
+  count: number;
+}
+
+// Backend trade response types
+export interface BackendTradeResponse {
+  coin: string;
+  side: "A" | "B";
+  px: string;
+  sz: string;
+  time: string;
+  hash: string;
+  tid: number;
+  buyer: string | null;
+  seller: string | null;
+}
+
+export interface TradesResponse {
+  trades: BackendTradeResponse[];
+  count: number;
+}
+
+// A trade is looked up by its transaction hash or, when it has none, its trade id
+export type TradeLookup = { hash: string } | { tid: number };
+
+export interface PriceRange {
+  from: number; // ms
+  to?: number; // ms, defaults to now on the backend
+}
+
+// Fetcher function for React Query; without a range the backend returns its default (last 24h)
 export const fetchPriceComparison = async (
-  coin: string
+  coin: string,
+  range?: PriceRange
 ): Promise<PriceComparisonResponse> => {
   const response = await apiClient.get<PriceComparisonResponse>(
-    `/api/prices/${coin}`
+    `/api/prices/${coin}`,
+    {
+      params: range && {
+        from: new Date(range.from).toISOString(),
+        ...(range.to !== undefined
+          ? { to: new Date(range.to).toISOString() }
+          : {}),
+      },
+    }
   );
   return response.data;
 };
 
+const toBlock = (block: BackendBlockResponse): HyperliquidBlock => ({
+  height: block.height,
+  hash: block.hash,
+  time: new Date(block.time).getTime(),
+  txCount: block.tx_count,
+});
+
+// Latest blocks, newest first
+export const fetchBlocks = async (
+  limit: number
+): Promise<HyperliquidBlock[]> => {
+  const response = await apiClient.get<BlocksResponse>("/api/blocks", {
+    params: { limit },
+  });
+  return response.data.blocks.map(toBlock);
+};
+
+// Single block by height; the backend answers 404 for unknown heights
+export const fetchBlock = async (height: number): Promise<HyperliquidBlock> => {
+  const response = await apiClient.get<BackendBlockResponse>(
+    `/api/blocks/${height}`
+  );
+  return toBlock(response.data);
+};
+
+// Every fill in a transaction, or the single trade with a tid; 404 when unknown
+export const fetchTrades = async (
+  lookup: TradeLookup
+): Promise<HyperliquidTrade[]> => {
+  const response = await apiClient.get<TradesResponse>("/api/trades", {
+    params: lookup,
+  });
+  return response.data.trades.map(
+    ({ buyer, seller, time, ...trade }): HyperliquidTrade => ({
+      ...trade,
+      time: new Date(time).getTime(),
+      users: buyer && seller ? [buyer, seller] : undefined,
+    })
+  );
+};
+
+// Lets callers tell "doesn't exist" apart from the backend being down
+export const isNotFoundError = (error: unknown) =>
+  isAxiosError(error) && error.response?.status === 404;
+
 export default apiClient;
@@ -0,0 +1,101 @@
+import type { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+
+// Request health per endpoint for the /status page, fed by axios interceptors
+
+const LATENCY_SAMPLES = 20;
+
+export interface ApiEndpointMetrics {
+  endpoint: string;
+  requests: number;
+  errors: number;
+  lastLatency: number | null;
+  averageLatency: number | null; // Over the last LATENCY_SAMPLES requests
+  lastSuccessAt: number | null;
+  lastErrorAt: number | null;
+  lastError: string | null;
+}
+
+interface EndpointState extends Omit<ApiEndpointMetrics, "averageLatency"> {
+  latencies: number[];
+}
+
+const endpoints = new Map<string, EndpointState>();
+const startTimes = new WeakMap<InternalAxiosRequestConfig, number>();
+
+function record(
+  endpoint: string,
+  latency: number,
+  error: string | null,
+  now = Date.now()
+) {
+  let state = endpoints.get(endpoint);
+  if (!state) {
+    state = {
+      endpoint,
+      requests: 0,
+      errors: 0,
+      lastLatency: null,
+      lastSuccessAt: null,
+      lastErrorAt: null,
+      lastError: null,
+      latencies: [],
+    };
+    endpoints.set(endpoint, state);
+  }
+
+  state.requests += 1;
+  state.lastLatency = latency;
+  state.latencies = [...state.latencies, latency].slice(-LATENCY_SAMPLES);
+  if (error === null) {
+    state.lastSuccessAt = now;
+  } else {
+    state.errors += 1;
+    state.lastErrorAt = now;
+    state.lastError = error;
+  }
+}
+
+export function getApiMetrics(): ApiEndpointMetrics[] {
+  return Array.from(endpoints.values(), ({ latencies, ...state }) => ({
+    ...state,
+    averageLatency:
+      latencies.length > 0
+        ? latencies.reduce((sum, value) => sum + value, 0) / latencies.length
+        : null,
+  })).sort((a, b) => a.endpoint.localeCompare(b.endpoint));
+}
+
+/**
+ * Times every request made through the client. `endpointFor` groups
+ * requests under a stable name (e.g. "/api/prices/:coin").
+ */
+export function instrumentClient(
+  client: AxiosInstance,
+  endpointFor: (config: InternalAxiosRequestConfig) => string
+) {
+  client.interceptors.request.use((config) => {
+    startTimes.set(config, performance.now());
+    return config;
+  });
+
+  const elapsed = (config: InternalAxiosRequestConfig | undefined) => {
+    const start = config ? startTimes.get(config) : undefined;
+    return start !== undefined ? performance.now() - start : 0;
+  };
+
+  client.interceptors.response.use(
+    (response) => {
+      record(endpointFor(response.config), elapsed(response.config), null);
+      return response;
+    },
+    (error) => {
+      const config: InternalAxiosRequestConfig | undefined = error?.config;
+      record(
+        config ? endpointFor(config) : "unknown",
+        elapsed(config),
+        error instanceof Error ? error.message : String(error)
+      );
+      return Promise.reject(error);
+    }
+  );
+}
@@ -0,0 +1,55 @@
+import type {
+  CoinPrice,
+  HyperliquidAssetCtx,
+  PriceHistoryEntry,
+} from "@/types/hyperliquid";
+
+const toNumber = (value: string | null | undefined) => {
+  const parsed = value != null ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Combines the live mid with the exchange asset context. The exchange's
+ * prevDayPx is the 24h baseline; locally recorded history only stands in
+ * until the context has loaded (or for coins without one).
+ */
+export function buildCoinPrice(
+  coin: string,
+  price: number,
+  history: PriceHistoryEntry[],
+  ctx: HyperliquidAssetCtx | undefined,
+  now = Date.now()
+): CoinPrice {
+  const prevDayPx = toNumber(ctx?.prevDayPx);
+  const sample = history[0] ?? { price, timestamp: now };
+  const baseline =
+    prevDayPx !== null && prevDayPx > 0
+      ? { source: "exchange" as const, price: prevDayPx, age: null }
+      : {
+          source: "history" as const,
+          price: sample.price,
+          age: now - sample.timestamp,
+        };
+
+  const change = price - baseline.price;
+  const markPrice = toNumber(ctx?.markPx);
+  const openInterest = toNumber(ctx?.openInterest);
+
+  return {
+    coin,
+    price,
+    price24h: baseline.price,
+    baselineSource: baseline.source,
+    price24hAge: baseline.age,
+    change,
+    changePercent: baseline.price > 0 ? (change / baseline.price) * 100 : 0,
+    markPrice,
+    dayNotionalVolume: toNumber(ctx?.dayNtlVlm),
+    funding: toNumber(ctx?.funding),
+    openInterest:
+      openInterest !== null && markPrice !== null
+        ? openInterest * markPrice
+        : null,
+  };
+}
@@ -0,0 +1,126 @@
+import { formatDuration } from "@/libs/format";
+import type {
+  DriftIncident,
+  DriftKind,
+  DriftThresholds,
+  PriceComparison,
+} from "@/types/hyperliquid";
+
+export const DEFAULT_DRIFT_THRESHOLDS: DriftThresholds = {
+  maxDeviationPercent: 0.5,
+  maxStalenessMs: 2 * 60 * 60 * 1000,
+};
+
+const MAX_INCIDENTS = 200;
+
+export type DriftReading = Record<DriftKind, number | null>;
+
+// Deviation and staleness against the newest backend sample; null when unknown
+export function measureDrift(comparison: PriceComparison | null): DriftReading {
+  return {
+    deviation:
+      comparison?.priceDiffPercent != null
+        ? Math.abs(comparison.priceDiffPercent)
+        : null,
+    staleness: comparison?.sampleAge ?? null,
+  };
+}
+
+const thresholdFor = (kind: DriftKind, thresholds: DriftThresholds) =>
+  kind === "deviation"
+    ? thresholds.maxDeviationPercent
+    : thresholds.maxStalenessMs;
+
+// Incident log, newest first, shared by every card on the page
+let incidents: DriftIncident[] = [];
+let nextIncidentId = 1;
+const incidentListeners = new Set<() => void>();
+
+function setIncidents(next: DriftIncident[]) {
+  incidents = next.slice(0, MAX_INCIDENTS);
+  incidentListeners.forEach((listener) => listener());
+}
+
+export function getDriftIncidents(): DriftIncident[] {
+  return incidents;
+}
+
+export function subscribeDriftIncidents(listener: () => void) {
+  incidentListeners.add(listener);
+  return () => {
+    incidentListeners.delete(listener);
+  };
+}
+
+/**
+ * Opens, extends or closes incidents for a coin from its latest reading.
+ * Unknown values (no backend data yet) leave the current state alone.
+ * Returns the incidents opened by this reading.
+ */
+export function reportDrift(
+  coin: string,
+  reading: DriftReading,
+  thresholds: DriftThresholds,
+  now = Date.now()
+): DriftIncident[] {
+  const opened: DriftIncident[] = [];
+  let next = incidents;
+
+  (Object.keys(reading) as DriftKind[]).forEach((kind) => {
+    const value = reading[kind];
+    if (value === null) return;
+    const threshold = thresholdFor(kind, thresholds);
+    const breached = value > threshold;
+    const open = next.find(
+      (incident) =>
+        incident.coin === coin &&
+        incident.kind === kind &&
+        incident.endedAt === null
+    );
+
+    if (breached && !open) {
+      const incident: DriftIncident = {
+        id: nextIncidentId++,
+        coin,
+        kind,
+        threshold,
+        peak: value,
+        startedAt: now,
+        endedAt: null,
+      };
+      opened.push(incident);
+      next = [incident, ...next];
+    } else if (open && (!breached || value > open.peak)) {
+      next = next.map((incident) =>
+        incident === open
+          ? breached
+            ? { ...incident, peak: value }
+            : { ...incident, endedAt: now }
+          : incident
+      );
+    }
+  });
+
+  if (next !== incidents) setIncidents(next);
+  return opened;
+}
+
+// Ends open incidents for a coin that is no longer monitored
+export function closeDriftIncidents(coin: string, now = Date.now()) {
+  if (!incidents.some((i) => i.coin === coin && i.endedAt === null)) return;
+  setIncidents(
+    incidents.map((incident) =>
+      incident.coin === coin && incident.endedAt === null
+        ? { ...incident, endedAt: now }
+        : incident
+    )
+  );
+}
+
+export function clearResolvedDriftIncidents() {
+  setIncidents(incidents.filter((incident) => incident.endedAt === null));
+}
+
+export function formatDriftValue(kind: DriftKind, value: number): string {
+  return kind === "deviation" ? `${value.toFixed(3)}%` : formatDuration(value);
+}
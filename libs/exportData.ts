@@ -0,0 +1,103 @@
+import type { ComparisonWindow } from "@/libs/priceComparison";
+import type { HyperliquidTrade, PriceComparison } from "@/types/hyperliquid";
+
+export type ExportFormat = "csv" | "json";
+
+// Strings are written verbatim so wire values like px "0.000123" keep their digits
+type ExportCell = string | number | null;
+type ExportRow = Record<string, ExportCell>;
+
+export const TRADE_EXPORT_COLUMNS = [
+  "coin",
+  "side",
+  "px",
+  "sz",
+  "time",
+  "hash",
+  "tid",
+] as const;
+
+export const COMPARISON_EXPORT_COLUMNS = [
+  "coin",
+  "window",
+  "wsPrice",
+  "backendPrice",
+  "priceDiff",
+  "priceDiffPercent",
+  "sampleTime",
+  "stalenessMs",
+] as const;
+
+function csvCell(value: ExportCell) {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: ExportRow[], columns: readonly string[]) {
+  const lines = rows.map((row) =>
+    columns.map((column) => csvCell(row[column] ?? null)).join(",")
+  );
+  return [columns.join(","), ...lines].join("\n") + "\n";
+}
+
+function download(
+  name: string,
+  rows: ExportRow[],
+  columns: readonly string[],
+  format: ExportFormat
+) {
+  const content =
+    format === "csv" ? toCsv(rows, columns) : JSON.stringify(rows, null, 2);
+  const blob = new Blob([content], {
+    type: format === "csv" ? "text/csv" : "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `dexlite-${name}-${stamp}.${format}`;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function exportTrades(trades: HyperliquidTrade[], format: ExportFormat) {
+  const rows = trades.map(({ coin, side, px, sz, time, hash, tid }) => ({
+    coin,
+    side,
+    px,
+    sz,
+    time,
+    hash,
+    tid,
+  }));
+  download("trades", rows, TRADE_EXPORT_COLUMNS, format);
+}
+
+export interface ComparisonExportEntry {
+  coin: string;
+  wsPrice: string; // allMids value as received
+  comparison: PriceComparison | null;
+}
+
+export function exportComparisons(
+  entries: ComparisonExportEntry[],
+  comparisonWindow: ComparisonWindow,
+  format: ExportFormat
+) {
+  const rows = entries.map(({ coin, wsPrice, comparison }) => ({
+    coin,
+    window: comparisonWindow,
+    wsPrice,
+    backendPrice: comparison?.backendPrice ?? null,
+    priceDiff: comparison?.priceDiff ?? null,
+    priceDiffPercent: comparison?.priceDiffPercent ?? null,
+    sampleTime:
+      comparison?.sampleTime != null
+        ? new Date(comparison.sampleTime).toISOString()
+        : null,
+    stalenessMs: comparison?.sampleAge ?? null,
+  }));
+  download("comparisons", rows, COMPARISON_EXPORT_COLUMNS, format);
+}
@@ -0,0 +1,126 @@
+import type { ConnectionState } from "@/hooks/useWebsocket";
+import type { HyperliquidWebSocketMessage } from "@/types/hyperliquid";
+
+// Feed health counters for the /status page. Recording is cheap and never
+// notifies; readers poll getFeedMetrics() on their own schedule.
+
+const RATE_WINDOW_SECONDS = 60;
+const MAX_CONNECTION_EVENTS = 100;
+
+export interface ChannelMetrics {
+  channel: string;
+  total: number;
+  perSecond: number; // Average over the last minute
+  lastAt: number;
+}
+
+export interface ConnectionEvent extends ConnectionState {
+  at: number;
+}
+
+export interface FeedMetrics {
+  startedAt: number;
+  channels: ChannelMetrics[];
+  // Last message time per coin and channel
+  freshness: Record<string, Record<string, number>>;
+  connectionEvents: ConnectionEvent[]; // Newest first
+}
+
+interface ChannelCounter {
+  total: number;
+  lastAt: number;
+  seconds: Map<number, number>;
+}
+
+const startedAt = Date.now();
+const channels = new Map<string, ChannelCounter>();
+const freshness: Record<string, Record<string, number>> = {};
+let connectionEvents: ConnectionEvent[] = [];
+
+// Coins a frame carries data for; allMids covers every coin in the frame
+function messageCoins(message: HyperliquidWebSocketMessage): string[] {
+  switch (message.channel) {
+    case "trades":
+      return Array.from(new Set(message.data.map((trade) => trade.coin)));
+    case "allMids":
+      return Object.keys(message.data.mids);
+    case "l2Book":
+    case "activeAssetCtx":
+      return [message.data.coin];
+    case "candle":
+      return [message.data.s];
+    default:
+      return [];
+  }
+}
+
+export function recordFeedMessage(
+  message: HyperliquidWebSocketMessage,
+  now = Date.now()
+) {
+  let counter = channels.get(message.channel);
+  if (!counter) {
+    counter = { total: 0, lastAt: now, seconds: new Map() };
+    channels.set(message.channel, counter);
+  }
+  counter.total += 1;
+  counter.lastAt = now;
+  const second = Math.floor(now / 1000);
+  counter.seconds.set(second, (counter.seconds.get(second) ?? 0) + 1);
+
+  messageCoins(message).forEach((coin) => {
+    (freshness[coin] ??= {})[message.channel] = now;
+  });
+}
+
+// Only transitions are logged, not every lastMessageAt tick
+export function recordConnectionState(
+  state: ConnectionState,
+  now = Date.now()
+) {
+  const previous = connectionEvents[0];
+  if (
+    previous &&
+    previous.status === state.status &&
+    previous.attempt === state.attempt
+  ) {
+    return;
+  }
+  connectionEvents = [{ ...state, at: now }, ...connectionEvents].slice(
+    0,
+    MAX_CONNECTION_EVENTS
+  );
+}
+
+export function getFeedMetrics(now = Date.now()): FeedMetrics {
+  const currentSecond = Math.floor(now / 1000);
+  const oldest = currentSecond - RATE_WINDOW_SECONDS;
+  const elapsed = Math.min(
+    RATE_WINDOW_SECONDS,
+    Math.max(1, (now - startedAt) / 1000)
+  );
+
+  return {
+    startedAt,
+    channels: Array.from(channels.entries(), ([channel, counter]) => {
+      let recent = 0;
+      counter.seconds.forEach((count, second) => {
+        if (second <= oldest) counter.seconds.delete(second);
+        else recent += count;
+      });
+      return {
+        channel,
+        total: counter.total,
+        perSecond: recent / elapsed,
+        lastAt: counter.lastAt,
+      };
+    }).sort((a, b) => a.channel.localeCompare(b.channel)),
+    freshness: Object.fromEntries(
+      Object.entries(freshness).map(([coin, byChannel]) => [
+        coin,
+        { ...byChannel },
+      ])
+    ),
+    connectionEvents,
+  };
+}
@@ -0,0 +1,80 @@
+import axios from "axios";
+import { instrumentClient } from "@/libs/apiMetrics";
+import { getActiveNetwork } from "@/libs/network";
+import { parseAssetContexts, parseCandle } from "@/libs/hyperliquidMessages";
+import type {
+  HyperliquidAssetCtx,
+  HyperliquidCandle,
+} from "@/types/hyperliquid";
+
+const infoClient = axios.create({
+  headers: {
+    "Content-Type": "application/json",
+  },
+  timeout: 10000,
+});
+
+// Hyperliquid public info endpoint (REST) of the selected network
+infoClient.interceptors.request.use((config) => {
+  config.baseURL = getActiveNetwork().infoUrl;
+  return config;
+});
+
+// Every call is POST /info, so group by request type
+instrumentClient(infoClient, (config) => {
+  try {
+    const body =
+      typeof config.data === "string" ? JSON.parse(config.data) : config.data;
+    return `/info ${body?.type ?? "unknown"}`;
+  } catch {
+    return "/info";
+  }
+});
+
+export const CANDLE_INTERVALS = ["1m", "5m", "15m", "1h", "4h", "1d"] as const;
+
+export type CandleInterval = (typeof CANDLE_INTERVALS)[number];
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+};
+
+// Historical candles for backfill, oldest first
+export const fetchCandleSnapshot = async (
+  coin: string,
+  interval: CandleInterval,
+  startTime: number,
+  endTime: number
+): Promise<HyperliquidCandle[]> => {
+  const response = await infoClient.post<unknown[]>("/info", {
+    type: "candleSnapshot",
+    req: { coin, interval, startTime, endTime },
+  });
+  if (!Array.isArray(response.data)) {
+    throw new Error("Malformed candleSnapshot response");
+  }
+  return response.data
+    .map(parseCandle)
+    .filter((candle): candle is HyperliquidCandle => candle !== null);
+};
+
+// Perp asset contexts keyed by coin
+export const fetchAssetContexts = async (): Promise<
+  Record<string, HyperliquidAssetCtx>
+> => {
+  const response = await infoClient.post<unknown>("/info", {
+    type: "metaAndAssetCtxs",
+  });
+  const contexts = parseAssetContexts(response.data);
+  if (!contexts) {
+    throw new Error("Malformed metaAndAssetCtxs response");
+  }
+  return contexts;
+};
+
+export default infoClient;
@@ -0,0 +1,497 @@
+import type {
+  AllMidsData,
+  HyperliquidActiveAssetCtx,
+  HyperliquidAssetCtx,
+  HyperliquidCandle,
+  HyperliquidFill,
+  HyperliquidL2Book,
+  HyperliquidL2Level,
+  HyperliquidSubscription,
+  HyperliquidSubscriptionResponse,
+  HyperliquidTrade,
+  HyperliquidFillLiquidation,
+  HyperliquidUserFills,
+  HyperliquidUserFunding,
+  HyperliquidUserFundings,
+  HyperliquidWebSocketMessage,
+} from "@/types/hyperliquid";
+
+type UnknownRecord = Record<string, unknown>;
+
+// Frames (or array items within frames) rejected per channel since page load
+export type DroppedFrameCounts = Record<string, number>;
+
+let droppedFrames: DroppedFrameCounts = {};
+const droppedFrameListeners = new Set<() => void>();
+
+function countDropped(channel: string, count = 1) {
+  droppedFrames = {
+    ...droppedFrames,
+    [channel]: (droppedFrames[channel] ?? 0) + count,
+  };
+  droppedFrameListeners.forEach((listener) => listener());
+}
+
+export function getDroppedFrameCounts(): DroppedFrameCounts {
+  return droppedFrames;
+}
+
+export function subscribeDroppedFrameCounts(listener: () => void) {
+  droppedFrameListeners.add(listener);
+  return () => {
+    droppedFrameListeners.delete(listener);
+  };
+}
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Prices and sizes arrive as decimal strings; reject anything that would become NaN
+function isDecimalString(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    value.trim() !== "" &&
+    Number.isFinite(Number(value))
+  );
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isSide(value: unknown): value is "A" | "B" {
+  return value === "A" || value === "B";
+}
+
+export function parseTrade(value: unknown): HyperliquidTrade | null {
+  if (
+    !isRecord(value) ||
+    typeof value.coin !== "string" ||
+    !isSide(value.side) ||
+    !isDecimalString(value.px) ||
+    !isDecimalString(value.sz) ||
+    !isFiniteNumber(value.time) ||
+    typeof value.hash !== "string" ||
+    !isFiniteNumber(value.tid)
+  ) {
+    return null;
+  }
+
+  const users =
+    Array.isArray(value.users) &&
+    value.users.length === 2 &&
+    value.users.every((user) => typeof user === "string")
+      ? (value.users as [string, string])
+      : undefined;
+
+  return {
+    coin: value.coin,
+    side: value.side,
+    px: value.px,
+    sz: value.sz,
+    time: value.time,
+    hash: value.hash,
+    tid: value.tid,
+    ...(users ? { users } : {}),
+  };
+}
+
+export function parseAllMids(value: unknown): AllMidsData | null {
+  if (!isRecord(value) || !isRecord(value.mids)) return null;
+
+  const mids: Record<string, string> = {};
+  let malformed = 0;
+  Object.entries(value.mids).forEach(([coin, mid]) => {
+    if (isDecimalString(mid)) {
+      mids[coin] = mid;
+    } else {
+      malformed++;
+    }
+  });
+  if (malformed > 0) countDropped("allMids", malformed);
+
+  return { mids };
+}
+
+export function parseSubscriptionResponse(
+  value: unknown
+): HyperliquidSubscriptionResponse | null {
+  if (
+    !isRecord(value) ||
+    (value.method !== "subscribe" && value.method !== "unsubscribe") ||
+    !isRecord(value.subscription) ||
+    typeof value.subscription.type !== "string"
+  ) {
+    return null;
+  }
+  return {
+    method: value.method,
+    subscription: value.subscription as HyperliquidSubscription,
+  };
+}
+
+function parseL2Level(value: unknown): HyperliquidL2Level | null {
+  if (
+    !isRecord(value) ||
+    !isDecimalString(value.px) ||
+    !isDecimalString(value.sz) ||
+    !isFiniteNumber(value.n)
+  ) {
+    return null;
+  }
+  return { px: value.px, sz: value.sz, n: value.n };
+}
+
+export function parseL2Book(value: unknown): HyperliquidL2Book | null {
+  if (
+    !isRecord(value) ||
+    typeof value.coin !== "string" ||
+    !isFiniteNumber(value.time) ||
+    !Array.isArray(value.levels) ||
+    value.levels.length !== 2 ||
+    !value.levels.every(Array.isArray)
+  ) {
+    return null;
+  }
+
+  const [bidsRaw, asksRaw] = value.levels as [unknown[], unknown[]];
+  const bids = bidsRaw.map(parseL2Level);
+  const asks = asksRaw.map(parseL2Level);
+  // A book with a bad level can't be trusted for depth, so drop the whole frame
+  if (bids.includes(null) || asks.includes(null)) return null;
+
+  return {
+    coin: value.coin,
+    time: value.time,
+    levels: [bids as HyperliquidL2Level[], asks as HyperliquidL2Level[]],
+  };
+}
+
+export function parseCandle(value: unknown): HyperliquidCandle | null {
+  if (
+    !isRecord(value) ||
+    !isFiniteNumber(value.t) ||
+    !isFiniteNumber(value.T) ||
+    typeof value.s !== "string" ||
+    typeof value.i !== "string" ||
+    !isDecimalString(value.o) ||
+    !isDecimalString(value.c) ||
+    !isDecimalString(value.h) ||
+    !isDecimalString(value.l) ||
+    !isDecimalString(value.v) ||
+    !isFiniteNumber(value.n)
+  ) {
+    return null;
+  }
+  return {
+    t: value.t,
+    T: value.T,
+    s: value.s,
+    i: value.i,
+    o: value.o,
+    c: value.c,
+    h: value.h,
+    l: value.l,
+    v: value.v,
+    n: value.n,
+  };
+}
+
+function parseFillLiquidation(
+  value: unknown
+): HyperliquidFillLiquidation | null {
+  if (
+    !isRecord(value) ||
+    !isFiniteNumber(value.markPx) ||
+    typeof value.method !== "string"
+  ) {
+    return null;
+  }
+  return {
+    ...(typeof value.liquidatedUser === "string"
+      ? { liquidatedUser: value.liquidatedUser }
+      : {}),
+    markPx: value.markPx,
+    method: value.method,
+  };
+}
+
+export function parseFill(value: unknown): HyperliquidFill | null {
+  if (
+    !isRecord(value) ||
+    typeof value.coin !== "string" ||
+    !isDecimalString(value.px) ||
+    !isDecimalString(value.sz) ||
+    !isSide(value.side) ||
+    !isFiniteNumber(value.time) ||
+    !isDecimalString(value.startPosition) ||
+    typeof value.dir !== "string" ||
+    !isDecimalString(value.closedPnl) ||
+    typeof value.hash !== "string" ||
+    !isFiniteNumber(value.oid) ||
+    typeof value.crossed !== "boolean" ||
+    !isDecimalString(value.fee) ||
+    !isFiniteNumber(value.tid) ||
+    typeof value.feeToken !== "string"
+  ) {
+    return null;
+  }
+  const liquidation = parseFillLiquidation(value.liquidation);
+  return {
+    coin: value.coin,
+    px: value.px,
+    sz: value.sz,
+    side: value.side,
+    time: value.time,
+    startPosition: value.startPosition,
+    dir: value.dir,
+    closedPnl: value.closedPnl,
+    hash: value.hash,
+    oid: value.oid,
+    crossed: value.crossed,
+    fee: value.fee,
+    tid: value.tid,
+    feeToken: value.feeToken,
+    ...(liquidation ? { liquidation } : {}),
+  };
+}
+
+export function parseAssetCtx(value: unknown): HyperliquidAssetCtx | null {
+  if (
+    !isRecord(value) ||
+    !isDecimalString(value.funding) ||
+    !isDecimalString(value.openInterest) ||
+    !isDecimalString(value.prevDayPx) ||
+    !isDecimalString(value.dayNtlVlm) ||
+    !isDecimalString(value.markPx) ||
+    !(value.midPx == null || isDecimalString(value.midPx)) ||
+    !isDecimalString(value.oraclePx)
+  ) {
+    return null;
+  }
+  return {
+    funding: value.funding,
+    openInterest: value.openInterest,
+    prevDayPx: value.prevDayPx,
+    dayNtlVlm: value.dayNtlVlm,
+    markPx: value.markPx,
+    midPx: value.midPx ?? null,
+    oraclePx: value.oraclePx,
+  };
+}
+
+// metaAndAssetCtxs response: [meta, ctxs], where meta.universe and the ctx
+// array share an index. Malformed assets are skipped, a malformed shape is null.
+export function parseAssetContexts(
+  value: unknown
+): Record<string, HyperliquidAssetCtx> | null {
+  if (!Array.isArray(value)) return null;
+  const [meta, ctxs] = value;
+  if (
+    !isRecord(meta) ||
+    !Array.isArray(meta.universe) ||
+    !Array.isArray(ctxs)
+  ) {
+    return null;
+  }
+  const contexts: Record<string, HyperliquidAssetCtx> = {};
+  meta.universe.forEach((asset: unknown, index) => {
+    const ctx = parseAssetCtx(ctxs[index]);
+    if (isRecord(asset) && typeof asset.name === "string" && ctx) {
+      contexts[asset.name] = ctx;
+    }
+  });
+  return contexts;
+}
+
+export function parseActiveAssetCtx(
+  value: unknown
+): HyperliquidActiveAssetCtx | null {
+  if (!isRecord(value) || typeof value.coin !== "string") return null;
+  const ctx = parseAssetCtx(value.ctx);
+  return ctx ? { coin: value.coin, ctx } : null;
+}
+
+// Keeps the well-formed items of a batch and counts the rest
+function parseBatch<T>(
+  channel: string,
+  items: unknown[],
+  parseItem: (item: unknown) => T | null
+): T[] {
+  const parsed: T[] = [];
+  items.forEach((item) => {
+    const result = parseItem(item);
+    if (result) parsed.push(result);
+  });
+  if (parsed.length < items.length) {
+    countDropped(channel, items.length - parsed.length);
+  }
+  return parsed;
+}
+
+export function parseUserFills(value: unknown): HyperliquidUserFills | null {
+  if (
+    !isRecord(value) ||
+    typeof value.user !== "string" ||
+    !Array.isArray(value.fills)
+  ) {
+    return null;
+  }
+  return {
+    ...(typeof value.isSnapshot === "boolean"
+      ? { isSnapshot: value.isSnapshot }
+      : {}),
+    user: value.user,
+    fills: parseBatch("userFills", value.fills, parseFill),
+  };
+}
+
+function parseUserFunding(value: unknown): HyperliquidUserFunding | null {
+  if (
+    !isRecord(value) ||
+    !isFiniteNumber(value.time) ||
+    typeof value.coin !== "string" ||
+    !isDecimalString(value.usdc) ||
+    !isDecimalString(value.szi) ||
+    !isDecimalString(value.fundingRate)
+  ) {
+    return null;
+  }
+  return {
+    time: value.time,
+    coin: value.coin,
+    usdc: value.usdc,
+    szi: value.szi,
+    fundingRate: value.fundingRate,
+  };
+}
+
+export function parseUserFundings(
+  value: unknown
+): HyperliquidUserFundings | null {
+  if (
+    !isRecord(value) ||
+    typeof value.user !== "string" ||
+    !Array.isArray(value.fundings)
+  ) {
+    return null;
+  }
+  return {
+    ...(typeof value.isSnapshot === "boolean"
+      ? { isSnapshot: value.isSnapshot }
+      : {}),
+    user: value.user,
+    fundings: parseBatch("userFundings", value.fundings, parseUserFunding),
+  };
+}
+
+function parseFrame(frame: UnknownRecord): HyperliquidWebSocketMessage | null {
+  const { channel, data } = frame;
+
+  switch (channel) {
+    case "trades": {
+      if (!Array.isArray(data)) return null;
+      return { channel, data: parseBatch("trades", data, parseTrade) };
+    }
+    case "allMids": {
+      const mids = parseAllMids(data);
+      return mids ? { channel, data: mids } : null;
+    }
+    case "subscriptionResponse": {
+      const response = parseSubscriptionResponse(data);
+      return response ? { channel, data: response } : null;
+    }
+    case "error":
+      return typeof data === "string" ? { channel, data } : null;
+    case "pong":
+      return { channel };
+    case "l2Book": {
+      const book = parseL2Book(data);
+      return book ? { channel, data: book } : null;
+    }
+    case "candle": {
+      const candle = parseCandle(data);
+      return candle ? { channel, data: candle } : null;
+    }
+    case "userFills": {
+      const fills = parseUserFills(data);
+      return fills ? { channel, data: fills } : null;
+    }
+    case "activeAssetCtx": {
+      const assetCtx = parseActiveAssetCtx(data);
+      return assetCtx ? { channel, data: assetCtx } : null;
+    }
+    case "userFundings": {
+      const fundings = parseUserFundings(data);
+      return fundings ? { channel, data: fundings } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validates a decoded WebSocket frame. Returns null (and counts the frame)
+ * when the channel is unknown or the payload is malformed.
+ */
+export function parseHyperliquidMessage(
+  raw: unknown
+): HyperliquidWebSocketMessage | null {
+  if (!isRecord(raw) || typeof raw.channel !== "string") {
+    countDropped("invalid");
+    return null;
+  }
+
+  const message = parseFrame(raw);
+  if (!message) {
+    countDropped(raw.channel);
+  }
+  return message;
+}
+
+/**
+ * Key used to deliver a message to the consumers of the subscription that
+ * produced it. Returns null for frames not tied to a subscription.
+ */
+export function messageRoutingKey(
+  message: HyperliquidWebSocketMessage
+): string | null {
+  switch (message.channel) {
+    case "trades":
+      return message.data.length > 0 ? `trades:${message.data[0].coin}` : null;
+    case "allMids":
+      return "allMids";
+    case "l2Book":
+      return `l2Book:${message.data.coin}`;
+    case "candle":
+      return `candle:${message.data.s}:${message.data.i}`;
+    case "userFills":
+      return `userFills:${message.data.user.toLowerCase()}`;
+    case "activeAssetCtx":
+      return `activeAssetCtx:${message.data.coin}`;
+    case "userFundings":
+      return `userFundings:${message.data.user.toLowerCase()}`;
+    default:
+      return null;
+  }
+}
+
+// Mirror of messageRoutingKey for the subscription side
+export function subscriptionRoutingKey(
+  subscription: HyperliquidSubscription
+): string {
+  switch (subscription.type) {
+    case "trades":
+    case "l2Book":
+    case "activeAssetCtx":
+      return `${subscription.type}:${subscription.coin}`;
+    case "candle":
+      return `candle:${subscription.coin}:${subscription.interval}`;
+    case "userFills":
+    case "userFundings":
+      return `${subscription.type}:${String(subscription.user).toLowerCase()}`;
+    default:
+      return subscription.type;
+  }
+}
@@ -0,0 +1,174 @@
+// Which Hyperliquid network the explorer talks to. Read outside React by the
+// API clients, so the selection lives in a module store rather than context.
+
+export const NETWORK_IDS = ["mainnet", "testnet", "custom"] as const;
+export type NetworkId = (typeof NETWORK_IDS)[number];
+
+// Query parameter that carries the selection in page URLs
+export const NETWORK_PARAM = "network";
+
+export interface NetworkEndpoints {
+  wsUrl: string;
+  infoUrl: string; // Hyperliquid REST info endpoint
+  apiUrl: string; // dexlite backend
+}
+
+export interface NetworkConfig extends Omit<NetworkEndpoints, "apiUrl"> {
+  id: NetworkId;
+  label: string;
+  apiUrl: string | null; // null when no backend indexes this network
+}
+
+interface NetworkSettings {
+  id: NetworkId;
+  custom: NetworkEndpoints;
+}
+
+const STORAGE_KEY = "dexlite:network";
+
+// Backend and info URLs can still be set at build time; they apply to mainnet
+const MAINNET: NetworkConfig = {
+  id: "mainnet",
+  label: "Mainnet",
+  wsUrl: "wss://api.hyperliquid.xyz/ws",
+  infoUrl:
+    process.env.NEXT_PUBLIC_HYPERLIQUID_API_URL ||
+    "https://api.hyperliquid.xyz",
+  apiUrl: process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080",
+};
+
+// The mainnet backend must never answer for testnet, so without its own URL
+// testnet has no backend
+const TESTNET: NetworkConfig = {
+  id: "testnet",
+  label: "Testnet",
+  wsUrl: "wss://api.hyperliquid-testnet.xyz/ws",
+  infoUrl: "https://api.hyperliquid-testnet.xyz",
+  apiUrl: process.env.NEXT_PUBLIC_TESTNET_API_URL || null,
+};
+
+// Starting point for the custom network: everything on one local server
+export const DEFAULT_CUSTOM_ENDPOINTS: NetworkEndpoints = {
+  wsUrl: "ws://localhost:8080/ws",
+  infoUrl: "http://localhost:8080",
+  apiUrl: "http://localhost:8080",
+};
+
+const DEFAULT_SETTINGS: NetworkSettings = {
+  id: "mainnet",
+  custom: DEFAULT_CUSTOM_ENDPOINTS,
+};
+
+const listeners = new Set<() => void>();
+let settings: NetworkSettings | null = null;
+let activeNetwork: NetworkConfig = MAINNET;
+
+export const isNetworkId = (value: unknown): value is NetworkId =>
+  NETWORK_IDS.includes(value as NetworkId);
+
+const isEndpoints = (value: unknown): value is NetworkEndpoints =>
+  typeof value === "object" &&
+  value !== null &&
+  ["wsUrl", "infoUrl", "apiUrl"].every(
+    (key) => typeof (value as Record<string, unknown>)[key] === "string"
+  );
+
+function parseSettings(raw: string | null): NetworkSettings {
+  if (raw === null) return DEFAULT_SETTINGS;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed === "object" && parsed !== null) {
+      const { id, custom } = parsed as Record<string, unknown>;
+      return {
+        id: isNetworkId(id) ? id : DEFAULT_SETTINGS.id,
+        custom: isEndpoints(custom) ? custom : DEFAULT_CUSTOM_ENDPOINTS,
+      };
+    }
+  } catch {
+    // Fall through to default on corrupt storage
+  }
+  return DEFAULT_SETTINGS;
+}
+
+function resolveNetwork({ id, custom }: NetworkSettings): NetworkConfig {
+  switch (id) {
+    case "mainnet":
+      return MAINNET;
+    case "testnet":
+      return TESTNET;
+    case "custom":
+      return { id, label: "Custom", ...custom };
+  }
+}
+
+function saveSettings(next: NetworkSettings) {
+  settings = next;
+  activeNetwork = resolveNetwork(next);
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+}
+
+// Resolved on first read so nothing connects to the wrong network: a shared
+// link's ?network= wins over (and replaces) the stored selection
+function getSettings(): NetworkSettings {
+  if (settings === null && typeof window !== "undefined") {
+    const stored = parseSettings(window.localStorage.getItem(STORAGE_KEY));
+    const requested = new URLSearchParams(window.location.search).get(
+      NETWORK_PARAM
+    );
+    if (isNetworkId(requested) && requested !== stored.id) {
+      saveSettings({ ...stored, id: requested });
+    } else {
+      settings = stored;
+      activeNetwork = resolveNetwork(stored);
+    }
+  }
+  return settings ?? DEFAULT_SETTINGS;
+}
+
+// Not synced across tabs: each tab keeps the network its URL names
+function writeSettings(next: NetworkSettings) {
+  saveSettings(next);
+  listeners.forEach((listener) => listener());
+}
+
+// Stable between calls until the selection changes
+export function getActiveNetwork(): NetworkConfig {
+  getSettings();
+  return activeNetwork;
+}
+
+export function getServerNetwork(): NetworkConfig {
+  return MAINNET;
+}
+
+export function getCustomEndpoints(): NetworkEndpoints {
+  return getSettings().custom;
+}
+
+export function subscribeNetwork(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function selectNetwork(id: NetworkId) {
+  const current = getSettings();
+  if (current.id === id) return;
+  writeSettings({ ...current, id });
+}
+
+// Saving endpoints also switches to the custom network
+export function setCustomEndpoints(custom: NetworkEndpoints) {
+  writeSettings({ id: "custom", custom });
+}
+
+/**
+ * Prefix for React Query keys. Custom endpoints are part of the key so
+ * pointing the custom network somewhere else doesn't reuse cached data.
+ */
+export function networkCacheKey(network: NetworkConfig): string {
+  return network.id === "custom"
+    ? `custom:${network.wsUrl}|${network.infoUrl}|${network.apiUrl}`
+    : network.id;
+}
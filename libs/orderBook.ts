@@ -0,0 +1,79 @@
+import type {
+  HyperliquidL2Book,
+  HyperliquidL2Level,
+  OrderBookLevel,
+  OrderBookSnapshot,
+} from "@/types/hyperliquid";
+
+// l2Book subscription parameters; the exchange groups the levels itself.
+// Mantissa (only with 5 figures) widens the last figure to steps of 2 or 5.
+export interface BookGrouping {
+  nSigFigs: 2 | 3 | 4 | 5;
+  mantissa?: 2 | 5;
+}
+
+export const BOOK_GROUPINGS: BookGrouping[] = [
+  { nSigFigs: 5 },
+  { nSigFigs: 5, mantissa: 2 },
+  { nSigFigs: 5, mantissa: 5 },
+  { nSigFigs: 4 },
+  { nSigFigs: 3 },
+  { nSigFigs: 2 },
+];
+
+// Decimal places needed to print a grouping step without float noise
+export function stepDecimals(step: number): number {
+  return Math.max(0, -Math.floor(Math.log10(step)));
+}
+
+// Price step of a grouping at this price, e.g. BTC ~60k -> 1, 2, 5, 10, 100, 1000
+export function groupingStep(
+  grouping: BookGrouping,
+  referencePrice: number
+): number | null {
+  if (!(referencePrice > 0)) return null;
+  const magnitude = Math.floor(Math.log10(referencePrice));
+  const step =
+    Math.pow(10, magnitude - grouping.nSigFigs + 1) * (grouping.mantissa ?? 1);
+  return Number(step.toFixed(stepDecimals(step)));
+}
+
+function bookSide(
+  levels: HyperliquidL2Level[],
+  depth: number
+): OrderBookLevel[] {
+  // Levels arrive best-first
+  let total = 0;
+  return levels.slice(0, depth).map((level) => {
+    const size = parseFloat(level.sz);
+    total += size;
+    return { price: parseFloat(level.px), size, orders: level.n, total };
+  });
+}
+
+export function summarizeBook(
+  book: HyperliquidL2Book,
+  depth: number
+): OrderBookSnapshot {
+  const [bidLevels, askLevels] = book.levels;
+  const bids = bookSide(bidLevels, depth);
+  const asks = bookSide(askLevels, depth);
+
+  // Taken from the grouped top of book, so coarse groupings widen the spread
+  const bestBid = bids[0]?.price ?? null;
+  const bestAsk = asks[0]?.price ?? null;
+  const spread =
+    bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null;
+  const mid =
+    bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null;
+
+  return {
+    coin: book.coin,
+    time: book.time,
+    bids,
+    asks,
+    spread,
+    spreadBps: spread !== null && mid ? (spread / mid) * 10000 : null,
+    mid,
+  };
+}
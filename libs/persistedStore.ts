@@ -0,0 +1,54 @@
+// localStorage-backed value for useSyncExternalStore. Each store supplies a
+// key, a default and a parser that validates whatever storage holds.
+
+export function createPersistedStore<T>(
+  key: string,
+  fallback: T,
+  parse: (value: unknown) => T
+) {
+  const listeners = new Set<() => void>();
+  let cachedRaw: string | null = null;
+  let cachedValue = fallback;
+
+  const read = (raw: string | null): T => {
+    if (raw === null) return fallback;
+    try {
+      return parse(JSON.parse(raw));
+    } catch {
+      // Fall back to the default on corrupt storage
+      return fallback;
+    }
+  };
+
+  // Snapshot must be referentially stable between calls while storage is unchanged
+  const getSnapshot = (): T => {
+    const raw = window.localStorage.getItem(key);
+    if (raw !== cachedRaw) {
+      cachedRaw = raw;
+      cachedValue = read(raw);
+    }
+    return cachedValue;
+  };
+
+  const getServerSnapshot = (): T => fallback;
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    // Keep other tabs in sync
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === key) listener();
+    };
+    window.addEventListener("storage", onStorage);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener("storage", onStorage);
+    };
+  };
+
+  const write = (value: T) => {
+    window.localStorage.setItem(key, JSON.stringify(value));
+    listeners.forEach((listener) => listener());
+  };
+
+  return { getSnapshot, getServerSnapshot, subscribe, write };
+}
@@ -0,0 +1,96 @@
+import type { PriceComparisonResponse } from "@/libs/api";
+import type { PriceComparison } from "@/types/hyperliquid";
+
+export interface PriceSeriesPoint {
+  price: number;
+  time: number;
+  priceDiff: number | null; // Live price minus this sample
+  priceDiffPercent: number | null;
+}
+
+export const COMPARISON_WINDOWS = ["latest", "1h", "4h", "24h", "7d"] as const;
+
+export type ComparisonWindow = (typeof COMPARISON_WINDOWS)[number];
+
+// How far back each window looks; "latest" compares with the newest sample
+export const COMPARISON_WINDOW_MS: Record<ComparisonWindow, number> = {
+  latest: 0,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+};
+
+// Compare the WS price with the backend sample nearest to now - window
+export function calculatePriceComparison(
+  wsPrice: number | undefined,
+  backendData: PriceComparisonResponse | undefined,
+  comparisonWindow: ComparisonWindow = "latest",
+  now = Date.now()
+): PriceComparison | null {
+  if (!wsPrice || wsPrice <= 0) return null;
+
+  if (!backendData || !backendData.prices || backendData.prices.length === 0) {
+    return {
+      wsPrice,
+      backendPrice: null,
+      priceDiff: null,
+      priceDiffPercent: null,
+      sampleTime: null,
+      sampleAge: null,
+    };
+  }
+
+  const target = now - COMPARISON_WINDOW_MS[comparisonWindow];
+  let sample = backendData.prices[backendData.prices.length - 1];
+  let sampleTime = new Date(sample.created_at).getTime();
+
+  // Samples are ordered ASC by created_at; "latest" keeps the last one
+  if (comparisonWindow !== "latest") {
+    backendData.prices.forEach((entry) => {
+      const time = new Date(entry.created_at).getTime();
+      if (Math.abs(time - target) < Math.abs(sampleTime - target)) {
+        sample = entry;
+        sampleTime = time;
+      }
+    });
+  }
+
+  const backendPrice = sample.price > 0 ? sample.price : null;
+  const priceDiff = backendPrice !== null ? wsPrice - backendPrice : null;
+
+  return {
+    wsPrice,
+    backendPrice,
+    priceDiff,
+    priceDiffPercent:
+      priceDiff !== null && backendPrice !== null
+        ? (priceDiff / backendPrice) * 100
+        : null,
+    sampleTime: Number.isFinite(sampleTime) ? sampleTime : null,
+    sampleAge: Number.isFinite(sampleTime) ? now - sampleTime : null,
+  };
+}
+
+// Every backend sample, newest first, compared against the live price
+export function buildPriceSeries(
+  wsPrice: number | undefined,
+  backendData: PriceComparisonResponse | undefined
+): PriceSeriesPoint[] {
+  if (!backendData?.prices) return [];
+
+  return backendData.prices
+    .map((entry) => {
+      const priceDiff = wsPrice && wsPrice > 0 ? wsPrice - entry.price : null;
+      return {
+        price: entry.price,
+        time: new Date(entry.created_at).getTime(),
+        priceDiff,
+        priceDiffPercent:
+          priceDiff !== null && entry.price > 0
+            ? (priceDiff / entry.price) * 100
+            : null,
+      };
+    })
+    .reverse();
+}
@@ -0,0 +1,114 @@
+import { getActiveNetwork } from "@/libs/network";
+import type { PriceHistoryEntry } from "@/types/hyperliquid";
+
+const DB_NAME = "dexlite";
+const DB_VERSION = 1;
+const STORE_NAME = "priceHistory";
+const TIMESTAMP_INDEX = "timestamp";
+
+// One stored sample per coin per minute is plenty for a 24h change figure
+export const PRICE_SAMPLE_INTERVAL = 60 * 1000;
+export const PRICE_HISTORY_RETENTION = 24 * 60 * 60 * 1000;
+
+export interface PriceSample extends PriceHistoryEntry {
+  coin: string;
+}
+
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+// One database per network so testnet prices never feed mainnet history;
+// mainnet keeps the original name and its existing samples
+function databaseName(): string {
+  const { id } = getActiveNetwork();
+  return id === "mainnet" ? DB_NAME : `${DB_NAME}-${id}`;
+}
+
+// Samples are keyed to the start of their interval, so tabs writing the same minute collapse into one row
+export function sampleTimestamp(timestamp: number): number {
+  return Math.floor(timestamp / PRICE_SAMPLE_INTERVAL) * PRICE_SAMPLE_INTERVAL;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  const name = databaseName();
+  let databasePromise = databases.get(name);
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: ["coin", "timestamp"],
+        });
+        store.createIndex(TIMESTAMP_INDEX, "timestamp");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Allow a later call to retry
+      databases.delete(name);
+      throw error;
+    });
+    databases.set(name, databasePromise);
+  }
+  return databasePromise;
+}
+
+// Stored history grouped by coin, oldest first
+export async function loadPriceHistory(
+  since: number
+): Promise<Record<string, PriceHistoryEntry[]>> {
+  const db = await openDatabase();
+  const index = db
+    .transaction(STORE_NAME, "readonly")
+    .objectStore(STORE_NAME)
+    .index(TIMESTAMP_INDEX);
+  const samples = await requestToPromise<PriceSample[]>(
+    index.getAll(IDBKeyRange.lowerBound(since, true))
+  );
+
+  const history: Record<string, PriceHistoryEntry[]> = {};
+  samples.forEach(({ coin, price, timestamp }) => {
+    (history[coin] ??= []).push({ price, timestamp });
+  });
+  return history;
+}
+
+export async function savePriceSamples(samples: PriceSample[]): Promise<void> {
+  if (samples.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, "readwrite");
+  const store = transaction.objectStore(STORE_NAME);
+  samples.forEach((sample) => store.put(sample));
+  await transactionDone(transaction);
+}
+
+export async function prunePriceHistory(before: number): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_NAME, "readwrite");
+  const index = transaction.objectStore(STORE_NAME).index(TIMESTAMP_INDEX);
+  const request = index.openCursor(IDBKeyRange.upperBound(before));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(transaction);
+}
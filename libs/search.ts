@@ -0,0 +1,122 @@
+import type { TradeLookup } from "@/libs/api";
+import type { HyperliquidTrade } from "@/types/hyperliquid";
+
+export type SearchKind = "hash" | "address" | "block" | "coin";
+
+export interface SearchSuggestion {
+  kind: SearchKind;
+  value: string;
+  detail?: string;
+  href: string;
+}
+
+const HASH_PATTERN = /^0x[0-9a-f]{64}$/i;
+const ADDRESS_PATTERN = /^0x[0-9a-f]{40}$/i;
+const HEIGHT_PATTERN = /^\d+$/;
+
+// Prefix completions need a few hex digits to be useful
+const MIN_HEX_PREFIX = 4;
+
+export const isTransactionHash = (value: string) => HASH_PATTERN.test(value);
+export const isAddress = (value: string) => ADDRESS_PATTERN.test(value);
+
+// Some fills carry an all-zero hash shared by unrelated trades
+const hasOwnHash = (trade: Pick<HyperliquidTrade, "hash">) =>
+  isTransactionHash(trade.hash) && !/^0x0+$/.test(trade.hash);
+
+// /tx/ takes a transaction hash, or a trade id for fills without one
+export function parseTradeLookup(param: string): TradeLookup | null {
+  if (isTransactionHash(param)) return { hash: param.toLowerCase() };
+  if (HEIGHT_PATTERN.test(param)) return { tid: Number(param) };
+  return null;
+}
+
+// Also takes user fills, which carry the same hash and trade id
+export function tradeHref(
+  trade: Pick<HyperliquidTrade, "hash" | "tid">
+): string {
+  return hasOwnHash(trade)
+    ? searchHref("hash", trade.hash)
+    : `/tx/${trade.tid}`;
+}
+
+export function searchHref(kind: SearchKind, value: string): string {
+  switch (kind) {
+    case "hash":
+      return `/tx/${value.toLowerCase()}`;
+    case "address":
+      return `/address/${value.toLowerCase()}`;
+    case "block":
+      return `/block/${value}`;
+    case "coin":
+      return `/coin/${encodeURIComponent(value)}`;
+  }
+}
+
+const suggestion = (
+  kind: SearchKind,
+  value: string,
+  detail?: string
+): SearchSuggestion => ({ kind, value, detail, href: searchHref(kind, value) });
+
+/**
+ * Works out what a complete query refers to: a 0x hash (66 chars), an
+ * address (42 chars), a block height, or a coin from the live universe.
+ */
+export function resolveSearch(
+  query: string,
+  coins: string[]
+): SearchSuggestion | null {
+  const value = query.trim();
+  if (isTransactionHash(value)) return suggestion("hash", value);
+  if (isAddress(value)) return suggestion("address", value);
+  if (HEIGHT_PATTERN.test(value)) {
+    return suggestion("block", String(parseInt(value, 10)));
+  }
+  const coin = coins.find((name) => name.toLowerCase() === value.toLowerCase());
+  return coin ? suggestion("coin", coin) : null;
+}
+
+// Exact match first, then coins by prefix and substring, then hashes and
+// addresses seen in recent trades
+export function searchSuggestions(
+  query: string,
+  coins: string[],
+  trades: HyperliquidTrade[],
+  limit = 8
+): SearchSuggestion[] {
+  const value = query.trim();
+  if (!value) return [];
+  const needle = value.toLowerCase();
+  const results: SearchSuggestion[] = [];
+  const hrefs = new Set<string>();
+  const add = (item: SearchSuggestion | null) => {
+    if (!item || hrefs.has(item.href) || results.length >= limit) return;
+    hrefs.add(item.href);
+    results.push(item);
+  };
+
+  add(resolveSearch(value, coins));
+
+  const matching = coins.filter((coin) => coin.toLowerCase().includes(needle));
+  matching
+    .filter((coin) => coin.toLowerCase().startsWith(needle))
+    .forEach((coin) => add(suggestion("coin", coin)));
+  matching.forEach((coin) => add(suggestion("coin", coin)));
+
+  if (needle.startsWith("0x") && needle.length >= MIN_HEX_PREFIX) {
+    for (const trade of trades) {
+      if (results.length >= limit) break;
+      if (trade.hash.toLowerCase().startsWith(needle)) {
+        add(suggestion("hash", trade.hash, `${trade.coin} trade`));
+      }
+      trade.users?.forEach((user, index) => {
+        if (user.toLowerCase().startsWith(needle)) {
+          add(suggestion("address", user, index === 0 ? "buyer" : "seller"));
+        }
+      });
+    }
+  }
+
+  return results;
+}
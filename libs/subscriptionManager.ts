@@ -0,0 +1,318 @@
+import type { SendOptions } from "@/hooks/useWebsocket";
+import type {
+  HyperliquidSubscription,
+  HyperliquidWebSocketMessage,
+} from "@/types/hyperliquid";
+
+export type SubscriptionStatus = "pending" | "confirmed" | "failed";
+
+export interface SubscriptionEntry {
+  key: string;
+  subscription: HyperliquidSubscription;
+  status: SubscriptionStatus;
+  refCount: number;
+  attempts: number;
+  error: string | null;
+  nextRetryAt: number | null;
+  updatedAt: number;
+}
+
+export interface SubscriptionManagerOptions {
+  retryBaseDelay?: number;
+  maxRetryDelay?: number;
+  confirmTimeout?: number;
+}
+
+export type SubscriptionSender = (
+  message: Record<string, unknown>,
+  options?: SendOptions
+) => void;
+
+// The manager replays subscriptions itself on attach, so nothing is queued
+const SEND_OPTIONS: SendOptions = { delivery: "immediate" };
+
+// Stable identity for a subscription regardless of property order
+export function subscriptionKey(subscription: HyperliquidSubscription): string {
+  const params = Object.keys(subscription)
+    .filter((name) => name !== "type" && subscription[name] != null)
+    .sort()
+    .map((name) => `${name}=${subscription[name]}`);
+  return [subscription.type, ...params].join("|");
+}
+
+// Hyperliquid reports failures as strings like "Invalid subscription {...}"
+function subscriptionFromError(error: string): HyperliquidSubscription | null {
+  const start = error.indexOf("{");
+  if (start === -1) return null;
+  try {
+    const parsed: unknown = JSON.parse(error.slice(start));
+    if (
+      parsed &&
+      typeof parsed === "object" &&
+      "type" in parsed &&
+      typeof parsed.type === "string"
+    ) {
+      return parsed as HyperliquidSubscription;
+    }
+  } catch {
+    // Not a subscription error we can attribute
+  }
+  return null;
+}
+
+export function createSubscriptionManager(
+  options: SubscriptionManagerOptions = {}
+) {
+  const {
+    retryBaseDelay = 1000,
+    maxRetryDelay = 30000,
+    confirmTimeout = 10000,
+  } = options;
+
+  const entries = new Map<string, SubscriptionEntry>();
+  const timers = new Map<string, NodeJS.Timeout>();
+  const releaseTimers = new Map<string, NodeJS.Timeout>();
+  const listeners = new Set<() => void>();
+  let send: SubscriptionSender | null = null;
+  let isOpen = false;
+  let snapshot: SubscriptionEntry[] = [];
+
+  const notify = () => {
+    snapshot = Array.from(entries.values(), (entry) => ({ ...entry }));
+    listeners.forEach((listener) => listener());
+  };
+
+  const clearTimer = (key: string) => {
+    const timer = timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      timers.delete(key);
+    }
+  };
+
+  const clearReleaseTimers = () => {
+    releaseTimers.forEach((timer) => clearTimeout(timer));
+    releaseTimers.clear();
+  };
+
+  const update = (
+    entry: SubscriptionEntry,
+    patch: Partial<SubscriptionEntry>
+  ) => {
+    Object.assign(entry, patch, { updatedAt: Date.now() });
+  };
+
+  const fail = (entry: SubscriptionEntry, error: string) => {
+    clearTimer(entry.key);
+    const delay = Math.min(
+      retryBaseDelay * Math.pow(2, Math.max(entry.attempts - 1, 0)),
+      maxRetryDelay
+    );
+    update(entry, { status: "failed", error, nextRetryAt: Date.now() + delay });
+    console.error(`✗ Subscription ${entry.key} failed: ${error}`);
+
+    timers.set(
+      entry.key,
+      setTimeout(() => {
+        timers.delete(entry.key);
+        if (entries.get(entry.key) === entry) transmit(entry);
+      }, delay)
+    );
+    notify();
+  };
+
+  function transmit(entry: SubscriptionEntry) {
+    clearTimer(entry.key);
+    if (!isOpen || !send) {
+      update(entry, { status: "pending", nextRetryAt: null });
+      notify();
+      return;
+    }
+
+    update(entry, {
+      status: "pending",
+      attempts: entry.attempts + 1,
+      nextRetryAt: null,
+    });
+    send(
+      { method: "subscribe", subscription: entry.subscription },
+      SEND_OPTIONS
+    );
+
+    // Treat a missing confirmation like a failure so it gets retried
+    timers.set(
+      entry.key,
+      setTimeout(() => {
+        timers.delete(entry.key);
+        if (entries.get(entry.key) === entry && entry.status === "pending") {
+          fail(entry, "No confirmation from server");
+        }
+      }, confirmTimeout)
+    );
+    notify();
+  }
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    clearTimer(key);
+    entries.delete(key);
+    if (isOpen && send) {
+      send(
+        { method: "unsubscribe", subscription: entry.subscription },
+        SEND_OPTIONS
+      );
+    }
+    notify();
+  };
+
+  return {
+    /** Declare interest in a subscription; sends subscribe on first use. */
+    acquire(subscription: HyperliquidSubscription) {
+      const key = subscriptionKey(subscription);
+      const releaseTimer = releaseTimers.get(key);
+      if (releaseTimer) {
+        clearTimeout(releaseTimer);
+        releaseTimers.delete(key);
+      }
+
+      const existing = entries.get(key);
+      if (existing) {
+        existing.refCount++;
+        notify();
+        return key;
+      }
+
+      const entry: SubscriptionEntry = {
+        key,
+        subscription,
+        status: "pending",
+        refCount: 1,
+        attempts: 0,
+        error: null,
+        nextRetryAt: null,
+        updatedAt: Date.now(),
+      };
+      entries.set(key, entry);
+      transmit(entry);
+      return key;
+    },
+
+    /** Drop interest; unsubscribes once nobody holds the subscription. */
+    release(subscription: HyperliquidSubscription) {
+      const key = subscriptionKey(subscription);
+      const entry = entries.get(key);
+      if (!entry) return;
+
+      entry.refCount = Math.max(entry.refCount - 1, 0);
+      if (entry.refCount > 0) {
+        notify();
+        return;
+      }
+
+      // Defer so a release/acquire pair within one render commit is a no-op
+      if (!releaseTimers.has(key)) {
+        releaseTimers.set(
+          key,
+          setTimeout(() => {
+            releaseTimers.delete(key);
+            if (entries.get(key)?.refCount === 0) remove(key);
+          }, 0)
+        );
+      }
+    },
+
+    /** Consumes subscription confirmations and errors; returns true if handled. */
+    handleMessage(message: HyperliquidWebSocketMessage): boolean {
+      if (message.channel === "subscriptionResponse") {
+        const { method, subscription } = message.data;
+
+        // Unsubscribe acks need no bookkeeping; the entry is already gone
+        if (method === "unsubscribe") return true;
+
+        const entry = entries.get(subscriptionKey(subscription));
+        if (entry && entry.status !== "confirmed") {
+          clearTimer(entry.key);
+          update(entry, {
+            status: "confirmed",
+            error: null,
+            nextRetryAt: null,
+          });
+          console.log(`✓ Subscribed to ${entry.key}`);
+          notify();
+        }
+        return true;
+      }
+
+      if (message.channel === "error") {
+        const subscription = subscriptionFromError(message.data);
+        const entry = subscription
+          ? entries.get(subscriptionKey(subscription))
+          : undefined;
+        if (!entry) return false;
+
+        if (message.data.startsWith("Already subscribed")) {
+          clearTimer(entry.key);
+          update(entry, {
+            status: "confirmed",
+            error: null,
+            nextRetryAt: null,
+          });
+          notify();
+        } else {
+          fail(entry, message.data);
+        }
+        return true;
+      }
+
+      return false;
+    },
+
+    /** Connection opened: (re)send every active subscription. */
+    attach(sender: SubscriptionSender) {
+      send = sender;
+      isOpen = true;
+      entries.forEach((entry) => {
+        update(entry, { attempts: 0 });
+        transmit(entry);
+      });
+    },
+
+    /** Connection lost: everything becomes pending until the next attach. */
+    detach() {
+      isOpen = false;
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      // Settle pending releases now; a closed socket has nothing to unsubscribe
+      releaseTimers.forEach((_, key) => {
+        if (entries.get(key)?.refCount === 0) entries.delete(key);
+      });
+      clearReleaseTimers();
+      entries.forEach((entry) =>
+        update(entry, { status: "pending", nextRetryAt: null })
+      );
+      notify();
+    },
+
+    getSnapshot(): SubscriptionEntry[] {
+      return snapshot;
+    },
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    dispose() {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      clearReleaseTimers();
+      isOpen = false;
+      send = null;
+    },
+  };
+}
+
+export type SubscriptionManager = ReturnType<typeof createSubscriptionManager>;
@@ -0,0 +1,98 @@
+import type { HyperliquidTrade } from "@/types/hyperliquid";
+
+export interface ThroughputSnapshot {
+  perSecond: number;
+  perMinute: number;
+  perFiveMinutes: number;
+  // Trades per completed second, oldest first
+  history: number[];
+}
+
+export interface ThroughputTrackerOptions {
+  historySize?: number;
+  // How long to wait before treating a second as complete, to let late frames land
+  settleDelay?: number;
+}
+
+const SECOND = 1000;
+const ONE_MINUTE = 60;
+const FIVE_MINUTES = 300;
+
+/**
+ * Counts trades into one-second buckets keyed by their exchange `time`, so
+ * delayed or batched frames land in the second they actually happened.
+ * Trade ids are remembered for the retention window, which keeps snapshot
+ * replays after a resubscribe from being counted twice.
+ */
+export function createThroughputTracker(
+  options: ThroughputTrackerOptions = {}
+) {
+  const { historySize = 60, settleDelay = 1000 } = options;
+  const retention = Math.max(FIVE_MINUTES, historySize);
+
+  const buckets = new Map<number, number>();
+  const seen = new Map<number, number>(); // tid -> bucket
+  const startedAt = Date.now();
+
+  // Newest second that is considered complete
+  const lastCompleteSecond = (now: number) =>
+    Math.floor((now - settleDelay) / SECOND) - 1;
+
+  const prune = (now: number) => {
+    const oldest = lastCompleteSecond(now) - retention;
+    buckets.forEach((_, second) => {
+      if (second <= oldest) buckets.delete(second);
+    });
+    seen.forEach((second, tid) => {
+      if (second <= oldest) seen.delete(tid);
+    });
+  };
+
+  const record = (trades: HyperliquidTrade[], now = Date.now()) => {
+    const oldest = lastCompleteSecond(now) - retention;
+    trades.forEach((trade) => {
+      const second = Math.floor(trade.time / SECOND);
+      if (second <= oldest || seen.has(trade.tid)) return;
+      seen.set(trade.tid, second);
+      buckets.set(second, (buckets.get(second) ?? 0) + 1);
+    });
+  };
+
+  const sum = (end: number, seconds: number) => {
+    let total = 0;
+    for (let second = end - seconds + 1; second <= end; second++) {
+      total += buckets.get(second) ?? 0;
+    }
+    return total;
+  };
+
+  // Average over the window, or over the time we've been tracking if shorter
+  const rate = (end: number, seconds: number, now: number) => {
+    const tracked = Math.floor((now - settleDelay - startedAt) / SECOND);
+    const covered = Math.min(seconds, Math.max(tracked, 1));
+    return sum(end, covered) / covered;
+  };
+
+  const getSnapshot = (now = Date.now()): ThroughputSnapshot => {
+    prune(now);
+    const end = lastCompleteSecond(now);
+    return {
+      perSecond: buckets.get(end) ?? 0,
+      perMinute: rate(end, ONE_MINUTE, now),
+      perFiveMinutes: rate(end, FIVE_MINUTES, now),
+      history: Array.from(
+        { length: historySize },
+        (_, index) => buckets.get(end - historySize + 1 + index) ?? 0
+      ),
+    };
+  };
+
+  const reset = () => {
+    buckets.clear();
+    seen.clear();
+  };
+
+  return { record, getSnapshot, reset };
+}
+
+export type ThroughputTracker = ReturnType<typeof createThroughputTracker>;
@@ -0,0 +1,133 @@
+import { tradeNotional } from "@/libs/trades";
+import type { CoinTradeStats, HyperliquidTrade } from "@/types/hyperliquid";
+
+export const TRADE_STAT_WINDOWS = ["1m", "15m", "1h"] as const;
+export type TradeStatWindow = (typeof TRADE_STAT_WINDOWS)[number];
+
+export const TRADE_STAT_WINDOW_MS: Record<TradeStatWindow, number> = {
+  "1m": 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+};
+
+const SECOND = 1000;
+const RETENTION = TRADE_STAT_WINDOW_MS["1h"];
+// Snapshot replays after a resubscribe only reach back a few minutes
+const DEDUPE_WINDOW = 5 * 60 * 1000;
+
+interface Bucket {
+  volume: number;
+  size: number;
+  trades: number;
+  buyVolume: number;
+  largestTrade: HyperliquidTrade;
+  largestNotional: number;
+}
+
+/**
+ * Rolling per-coin aggregates over the trade stream. Trades are folded into
+ * one-second buckets by exchange time, so memory stays bounded by coins x
+ * seconds in the longest window rather than by trade count.
+ */
+export function createTradeAnalytics() {
+  const buckets = new Map<string, Map<number, Bucket>>();
+  const seen = new Map<number, number>(); // tid -> trade time
+
+  const record = (trades: HyperliquidTrade[], now = Date.now()) => {
+    trades.forEach((trade) => {
+      if (trade.time <= now - RETENTION || seen.has(trade.tid)) return;
+      const value = tradeNotional(trade);
+      if (!Number.isFinite(value)) return;
+      seen.set(trade.tid, trade.time);
+
+      let coinBuckets = buckets.get(trade.coin);
+      if (!coinBuckets) {
+        coinBuckets = new Map();
+        buckets.set(trade.coin, coinBuckets);
+      }
+
+      const second = Math.floor(trade.time / SECOND);
+      const bucket = coinBuckets.get(second);
+      if (!bucket) {
+        coinBuckets.set(second, {
+          volume: value,
+          size: parseFloat(trade.sz),
+          trades: 1,
+          buyVolume: trade.side === "B" ? value : 0,
+          largestTrade: trade,
+          largestNotional: value,
+        });
+        return;
+      }
+
+      bucket.volume += value;
+      bucket.size += parseFloat(trade.sz);
+      bucket.trades += 1;
+      if (trade.side === "B") bucket.buyVolume += value;
+      if (value > bucket.largestNotional) {
+        bucket.largestTrade = trade;
+        bucket.largestNotional = value;
+      }
+    });
+  };
+
+  const prune = (now: number) => {
+    const oldestSecond = Math.floor((now - RETENTION) / SECOND);
+    buckets.forEach((coinBuckets, coin) => {
+      coinBuckets.forEach((_, second) => {
+        if (second < oldestSecond) coinBuckets.delete(second);
+      });
+      if (coinBuckets.size === 0) buckets.delete(coin);
+    });
+    seen.forEach((time, tid) => {
+      if (time <= now - DEDUPE_WINDOW) seen.delete(tid);
+    });
+  };
+
+  const getStats = (
+    window: TradeStatWindow,
+    now = Date.now()
+  ): Record<string, CoinTradeStats> => {
+    prune(now);
+    const since = Math.floor((now - TRADE_STAT_WINDOW_MS[window]) / SECOND);
+    const stats: Record<string, CoinTradeStats> = {};
+
+    buckets.forEach((coinBuckets, coin) => {
+      let volume = 0;
+      let size = 0;
+      let trades = 0;
+      let buyVolume = 0;
+      let largest: Bucket | null = null;
+
+      for (const [second, bucket] of coinBuckets) {
+        if (second < since) continue;
+        volume += bucket.volume;
+        size += bucket.size;
+        trades += bucket.trades;
+        buyVolume += bucket.buyVolume;
+        if (!largest || bucket.largestNotional > largest.largestNotional) {
+          largest = bucket;
+        }
+      }
+
+      if (trades === 0) return;
+      const sellVolume = volume - buyVolume;
+      stats[coin] = {
+        coin,
+        volume,
+        trades,
+        vwap: size > 0 ? volume / size : null,
+        buyVolume,
+        sellVolume,
+        imbalance: volume > 0 ? (buyVolume - sellVolume) / volume : 0,
+        largestTrade: largest?.largestTrade ?? null,
+      };
+    });
+
+    return stats;
+  };
+
+  return { record, getStats };
+}
+
+export type TradeAnalytics = ReturnType<typeof createTradeAnalytics>;
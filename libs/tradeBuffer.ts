@@ -0,0 +1,53 @@
+import type { TradeLookup } from "@/libs/api";
+import type { HyperliquidTrade } from "@/types/hyperliquid";
+
+export const TRADE_BUFFER_SIZE = 5000;
+
+// Every trade the socket delivered this session, newest first, shared by all
+// pages so lookups and search work wherever the trades were received
+let trades: HyperliquidTrade[] = [];
+const tids = new Set<number>();
+const listeners = new Set<() => void>();
+
+export function getBufferedTrades(): HyperliquidTrade[] {
+  return trades;
+}
+
+export function subscribeTradeBuffer(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Subscribe snapshots replay recent trades; known trade ids are skipped
+export function recordTrades(batch: HyperliquidTrade[]) {
+  const added = batch.filter((trade) => !tids.has(trade.tid));
+  if (added.length === 0) return;
+
+  added.forEach((trade) => tids.add(trade.tid));
+  const next = [...added.sort((a, b) => b.time - a.time), ...trades];
+  next.slice(TRADE_BUFFER_SIZE).forEach((trade) => tids.delete(trade.tid));
+  trades = next.slice(0, TRADE_BUFFER_SIZE);
+  listeners.forEach((listener) => listener());
+}
+
+// Trades belong to one network; called when switching
+export function clearTradeBuffer() {
+  if (trades.length === 0) return;
+  trades = [];
+  tids.clear();
+  listeners.forEach((listener) => listener());
+}
+
+// Several fills can share one transaction hash
+export function findTrades(
+  buffer: HyperliquidTrade[],
+  lookup: TradeLookup
+): HyperliquidTrade[] {
+  if ("tid" in lookup) {
+    return buffer.filter((trade) => trade.tid === lookup.tid);
+  }
+  const hash = lookup.hash.toLowerCase();
+  return buffer.filter((trade) => trade.hash.toLowerCase() === hash);
+}
@@ -0,0 +1,108 @@
+import { tradeNotional } from "@/libs/trades";
+import type { HyperliquidTrade } from "@/types/hyperliquid";
+
+export type TradeSortKey =
+  | "time"
+  | "coin"
+  | "side"
+  | "price"
+  | "size"
+  | "notional";
+
+export const TRADE_TIME_RANGES = ["all", "1m", "5m", "15m", "1h"] as const;
+
+export type TradeTimeRange = (typeof TRADE_TIME_RANGES)[number];
+
+export const TRADE_TIME_RANGE_MS: Record<TradeTimeRange, number | null> = {
+  all: null,
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+};
+
+export interface TradeFilter {
+  coin: string | null;
+  side: HyperliquidTrade["side"] | null;
+  // Inclusive bounds; null leaves that end open
+  minSize: number | null;
+  maxSize: number | null;
+  minNotional: number | null;
+  maxNotional: number | null;
+  maxAge: number | null; // ms before `now`
+}
+
+export const EMPTY_TRADE_FILTER: TradeFilter = {
+  coin: null,
+  side: null,
+  minSize: null,
+  maxSize: null,
+  minNotional: null,
+  maxNotional: null,
+  maxAge: null,
+};
+
+const inRange = (value: number, min: number | null, max: number | null) =>
+  (min === null || value >= min) && (max === null || value <= max);
+
+export function isFilterActive(filter: TradeFilter) {
+  return Object.values(filter).some((value) => value != null);
+}
+
+export function filterTrades(
+  trades: HyperliquidTrade[],
+  filter: TradeFilter,
+  now = Date.now()
+): HyperliquidTrade[] {
+  if (!isFilterActive(filter)) return trades;
+  const { coin, side, minSize, maxSize, minNotional, maxNotional, maxAge } =
+    filter;
+  const checkNotional = minNotional !== null || maxNotional !== null;
+  const since = maxAge !== null ? now - maxAge : -Infinity;
+
+  return trades.filter(
+    (trade) =>
+      trade.time >= since &&
+      (coin === null || trade.coin === coin) &&
+      (side === null || trade.side === side) &&
+      inRange(parseFloat(trade.sz), minSize, maxSize) &&
+      (!checkNotional ||
+        inRange(tradeNotional(trade), minNotional, maxNotional))
+  );
+}
+
+function sortValue(trade: HyperliquidTrade, key: TradeSortKey) {
+  switch (key) {
+    case "time":
+      return trade.time;
+    case "coin":
+      return trade.coin;
+    case "side":
+      return trade.side;
+    case "price":
+      return parseFloat(trade.px);
+    case "size":
+      return parseFloat(trade.sz);
+    case "notional":
+      return tradeNotional(trade);
+  }
+}
+
+export function sortTrades(
+  trades: HyperliquidTrade[],
+  key: TradeSortKey,
+  ascending: boolean
+): HyperliquidTrade[] {
+  return [...trades].sort((a, b) => {
+    const left = sortValue(a, key);
+    const right = sortValue(b, key);
+    const order =
+      (typeof left === "string"
+        ? left.localeCompare(right as string)
+        : left - (right as number)) ||
+      // Ties fall back to exchange order
+      a.time - b.time ||
+      a.tid - b.tid;
+    return ascending ? order : -order;
+  });
+}
@@ -0,0 +1,6 @@
+import type { HyperliquidTrade } from "@/types/hyperliquid";
+
+// USD value of a trade or user fill (price x size)
+export function tradeNotional(trade: Pick<HyperliquidTrade, "px" | "sz">) {
+  return parseFloat(trade.px) * parseFloat(trade.sz);
+}
@@ -0,0 +1,124 @@
+import { tradeNotional } from "@/libs/trades";
+import type {
+  HyperliquidFill,
+  HyperliquidUserFunding,
+} from "@/types/hyperliquid";
+
+export const MAX_USER_FILLS = 2000;
+
+// Fee amounts keyed by fee token; only USDC fees are dollars
+export type FeeTotals = Record<string, number>;
+
+export interface CoinActivity {
+  coin: string;
+  fills: number;
+  volume: number;
+  realizedPnl: number;
+  fees: FeeTotals;
+}
+
+export interface AccountSummary {
+  fills: number;
+  volume: number;
+  realizedPnl: number;
+  fees: FeeTotals;
+  funding: number;
+  liquidations: number; // Liquidations of this user, not ones it took part in
+  coins: CoinActivity[];
+}
+
+// Non-numeric fields count as zero rather than poisoning the totals
+const amount = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// A self-trade gives the user both fills of one trade id, one per order
+export const fillKey = (fill: HyperliquidFill) => `${fill.tid}:${fill.oid}`;
+
+// The subscribe snapshot and live frames overlap; known fills are skipped
+export function mergeFills(
+  fills: HyperliquidFill[],
+  batch: HyperliquidFill[],
+  maxItems = MAX_USER_FILLS
+): HyperliquidFill[] {
+  const keys = new Set(fills.map(fillKey));
+  const added = batch.filter((fill) => !keys.has(fillKey(fill)));
+  if (added.length === 0) return fills;
+  return [...added, ...fills]
+    .sort((a, b) => b.time - a.time || b.tid - a.tid)
+    .slice(0, maxItems);
+}
+
+// One funding payment per coin per hour; the snapshot repeats recent ones
+export function mergeFundings(
+  fundings: HyperliquidUserFunding[],
+  batch: HyperliquidUserFunding[]
+): HyperliquidUserFunding[] {
+  const key = (funding: HyperliquidUserFunding) =>
+    `${funding.time}:${funding.coin}`;
+  const keys = new Set(fundings.map(key));
+  const added = batch.filter((funding) => !keys.has(key(funding)));
+  return added.length > 0 ? [...added, ...fundings] : fundings;
+}
+
+/**
+ * Realized PnL, fees and traded volume over the fills received so far, in
+ * total and per coin (busiest first). Funding payments come from the
+ * userFundings feed.
+ */
+export function summarizeAccount(
+  user: string,
+  fills: HyperliquidFill[],
+  fundings: HyperliquidUserFunding[]
+): AccountSummary {
+  // A liquidation can fill in several parts under one hash
+  const liquidated = new Set(
+    fills
+      .filter(
+        (fill) =>
+          fill.liquidation?.liquidatedUser?.toLowerCase() === user.toLowerCase()
+      )
+      .map((fill) => fill.hash)
+  );
+  const coins = new Map<string, CoinActivity>();
+  fills.forEach((fill) => {
+    let activity = coins.get(fill.coin);
+    if (!activity) {
+      activity = {
+        coin: fill.coin,
+        fills: 0,
+        volume: 0,
+        realizedPnl: 0,
+        fees: {},
+      };
+      coins.set(fill.coin, activity);
+    }
+    const notional = tradeNotional(fill);
+    activity.fills += 1;
+    activity.volume += Number.isFinite(notional) ? notional : 0;
+    activity.realizedPnl += amount(fill.closedPnl);
+    activity.fees[fill.feeToken] =
+      (activity.fees[fill.feeToken] ?? 0) + amount(fill.fee);
+  });
+
+  const byCoin = Array.from(coins.values()).sort((a, b) => b.volume - a.volume);
+  const total = (key: "volume" | "realizedPnl") =>
+    byCoin.reduce((sum, activity) => sum + activity[key], 0);
+  const fees: FeeTotals = {};
+  byCoin.forEach((activity) =>
+    Object.entries(activity.fees).forEach(([token, value]) => {
+      fees[token] = (fees[token] ?? 0) + value;
+    })
+  );
+
+  return {
+    fills: fills.length,
+    volume: total("volume"),
+    realizedPnl: total("realizedPnl"),
+    fees,
+    funding: fundings.reduce((sum, funding) => sum + amount(funding.usdc), 0),
+    liquidations: liquidated.size,
+    coins: byCoin,
+  };
+}
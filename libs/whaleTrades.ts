@@ -0,0 +1,100 @@
+import { formatCompactUsd } from "@/libs/format";
+import { tradeNotional } from "@/libs/trades";
+import type { HyperliquidTrade } from "@/types/hyperliquid";
+
+export const DEFAULT_WHALE_THRESHOLD = 100_000; // USD notional
+export const MAX_WHALE_TRADES = 200;
+
+// Subscribe snapshots replay recent trades; only alert on ones this fresh
+const ALERT_MAX_AGE = 60 * 1000;
+
+export interface WhaleTrackerOptions {
+  maxItems?: number;
+}
+
+/**
+ * Keeps the newest trades at or above their coin's notional threshold.
+ * Trade ids already in the list are skipped, so a resubscribe snapshot
+ * doesn't add or alert on the same whale twice.
+ */
+export function createWhaleTracker(options: WhaleTrackerOptions = {}) {
+  const { maxItems = MAX_WHALE_TRADES } = options;
+  let trades: HyperliquidTrade[] = [];
+  let seen = new Set<number>();
+
+  // Returns the whales that were new to the list
+  const record = (
+    batch: HyperliquidTrade[],
+    thresholdFor: (coin: string) => number
+  ) => {
+    const added = batch.filter(
+      (trade) =>
+        !seen.has(trade.tid) && tradeNotional(trade) >= thresholdFor(trade.coin)
+    );
+    if (added.length === 0) return added;
+
+    trades = [...added, ...trades]
+      .sort((a, b) => b.time - a.time)
+      .slice(0, maxItems);
+    seen = new Set(trades.map((trade) => trade.tid));
+    return added.filter((trade) => seen.has(trade.tid));
+  };
+
+  const getTrades = () => trades;
+
+  const clear = () => {
+    trades = [];
+    seen = new Set();
+  };
+
+  return { record, getTrades, clear };
+}
+
+export type WhaleTracker = ReturnType<typeof createWhaleTracker>;
+
+export function isFreshWhale(trade: HyperliquidTrade, now = Date.now()) {
+  return now - trade.time <= ALERT_MAX_AGE;
+}
+
+export function notifyWhaleTrade(trade: HyperliquidTrade) {
+  if (
+    typeof Notification === "undefined" ||
+    Notification.permission !== "granted"
+  ) {
+    return;
+  }
+  new Notification(
+    `${trade.coin} whale ${trade.side === "B" ? "buy" : "sell"}`,
+    {
+      body: `${formatCompactUsd(tradeNotional(trade))} at $${trade.px}`,
+      tag: `whale-${trade.tid}`,
+    }
+  );
+}
+
+let audioContext: AudioContext | null = null;
+
+// Browsers only allow audio after a user gesture, so call this from one
+export function primeWhaleSound() {
+  if (typeof AudioContext === "undefined") return;
+  audioContext ??= new AudioContext();
+  if (audioContext.state === "suspended") void audioContext.resume();
+}
+
+// Short two-tone chime; silently does nothing until primed
+export function playWhaleSound() {
+  const context = audioContext;
+  if (!context || context.state !== "running") return;
+  const start = context.currentTime;
+  [660, 880].forEach((frequency, index) => {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const at = start + index * 0.12;
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.15, at);
+    gain.gain.exponentialRampToValueAtTime(0.001, at + 0.2);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(at);
+    oscillator.stop(at + 0.2);
+  });
+}
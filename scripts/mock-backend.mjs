@@ -0,0 +1,234 @@
+// Local mock of the dexlite backend for development.
+// Usage: npm run mock:api (then NEXT_PUBLIC_API_URL=http://localhost:8080)
+// Also stubs the Hyperliquid info endpoint (NEXT_PUBLIC_HYPERLIQUID_API_URL=http://localhost:8080)
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+
+const PORT = Number(process.env.MOCK_API_PORT || 8080);
+const BLOCK_INTERVAL_MS = 1000;
+const GENESIS_TIME = Date.now() - 24 * 60 * 60 * 1000;
+const CANDLE_STEP_MS = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+};
+const BASE_PRICES = { BTC: 97000, ETH: 3600, SOL: 210, ARB: 0.8, AVAX: 38 };
+
+// Deterministic block for a given height so repeated requests agree
+function blockAt(height) {
+  const hash = createHash("sha256").update(`block-${height}`).digest("hex");
+  return {
+    height,
+    hash: `0x${hash}`,
+    time: new Date(GENESIS_TIME + height * BLOCK_INTERVAL_MS).toISOString(),
+    tx_count: parseInt(hash.slice(0, 4), 16) % 200,
+  };
+}
+
+function latestHeight() {
+  return Math.floor((Date.now() - GENESIS_TIME) / BLOCK_INTERVAL_MS);
+}
+
+function getBlocks(url) {
+  const limit = Math.min(Number(url.searchParams.get("limit")) || 10, 100);
+  const head = latestHeight();
+  const blocks = [];
+  for (let height = head; height > head - limit && height > 0; height--) {
+    blocks.push(blockAt(height));
+  }
+  return { blocks, count: blocks.length };
+}
+
+// Hourly samples between ?from and ?to (ISO, default last 24h), ordered ASC by created_at
+function getPrices(coin, url) {
+  const hour = 60 * 60 * 1000;
+  const to = Date.parse(url.searchParams.get("to") ?? "") || Date.now();
+  const from = Date.parse(url.searchParams.get("from") ?? "") || to - 24 * hour;
+  const prices = [];
+  for (let time = to; time >= from && prices.length < 24 * 31; time -= hour) {
+    prices.push({
+      coin,
+      price: priceAt(coin, time),
+      created_at: new Date(time).toISOString(),
+    });
+  }
+  prices.reverse();
+  return { coin, prices, count: prices.length };
+}
+
+// Deterministic trade for ?hash= or ?tid=, so detail pages have something to show
+function getTrades(url) {
+  const hash = url.searchParams.get("hash");
+  const tid = url.searchParams.get("tid");
+  if (!hash && !tid) return null;
+
+  const digest = createHash("sha256")
+    .update(`trade-${hash ?? tid}`)
+    .digest("hex");
+  const coins = Object.keys(BASE_PRICES);
+  const coin = coins[parseInt(digest.slice(0, 2), 16) % coins.length];
+  const time = Date.now() - (parseInt(digest.slice(2, 6), 16) % 3600) * 1000;
+  const px = priceAt(coin, time);
+  const trade = {
+    coin,
+    side: parseInt(digest.slice(6, 8), 16) % 2 === 0 ? "B" : "A",
+    px: px.toFixed(px > 100 ? 1 : 4),
+    sz: ((parseInt(digest.slice(8, 12), 16) / 65535) * 10).toFixed(4),
+    time: new Date(time).toISOString(),
+    hash: hash ?? `0x${digest}`,
+    tid: tid ? Number(tid) : parseInt(digest.slice(12, 24), 16),
+    buyer: `0x${digest.slice(24, 64)}`,
+    seller: `0x${digest.slice(0, 40)}`,
+  };
+  return { trades: [trade], count: 1 };
+}
+
+function priceAt(coin, time) {
+  return (BASE_PRICES[coin] ?? 1) * (1 + Math.sin(time / 3.6e6) * 0.01);
+}
+
+// Shape of POST /info {"type":"metaAndAssetCtxs"}
+function getMetaAndAssetCtxs() {
+  const now = Date.now();
+  const coins = Object.keys(BASE_PRICES);
+  const universe = coins.map((name) => ({
+    name,
+    szDecimals: 4,
+    maxLeverage: 20,
+  }));
+  const ctxs = coins.map((coin) => {
+    const mark = priceAt(coin, now);
+    return {
+      funding: "0.0000125",
+      openInterest: String(Math.round(5e7 / mark)),
+      prevDayPx: String(priceAt(coin, now - 24 * 60 * 60 * 1000)),
+      dayNtlVlm: "125000000.0",
+      premium: "0.0001",
+      oraclePx: String(mark),
+      markPx: String(mark),
+      midPx: String(mark),
+      impactPxs: [String(mark * 0.9999), String(mark * 1.0001)],
+      dayBaseVlm: String(Math.round(1.25e8 / mark)),
+    };
+  });
+  return [{ universe }, ctxs];
+}
+
+// Shape of POST /info {"type":"candleSnapshot"}
+function getCandleSnapshot({ coin, interval, startTime, endTime }) {
+  const step = CANDLE_STEP_MS[interval] ?? CANDLE_STEP_MS["15m"];
+  const candles = [];
+  // Hyperliquid caps snapshots at 5000 candles, keeping the most recent
+  const first = Math.max(
+    Math.ceil(startTime / step) * step,
+    Math.floor(endTime / step) * step - 4999 * step
+  );
+  for (let t = first; t <= endTime; t += step) {
+    const open = priceAt(coin, t);
+    const close = priceAt(coin, t + step);
+    candles.push({
+      t,
+      T: t + step - 1,
+      s: coin,
+      i: interval,
+      o: String(open),
+      c: String(close),
+      h: String(Math.max(open, close) * 1.001),
+      l: String(Math.min(open, close) * 0.999),
+      v: "100.0",
+      n: 50,
+    });
+  }
+  return candles;
+}
+
+function getInfo(body) {
+  switch (body?.type) {
+    case "metaAndAssetCtxs":
+      return getMetaAndAssetCtxs();
+    case "candleSnapshot":
+      return getCandleSnapshot(body.req ?? {});
+    default:
+      return null;
+  }
+}
+
+function readJson(req) {
+  return new Promise((resolve) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+function sendJson(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    ...CORS_HEADERS,
+  });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS);
+    return res.end();
+  }
+
+  if (req.method === "GET" && url.pathname === "/api/blocks") {
+    return sendJson(res, 200, getBlocks(url));
+  }
+
+  if (req.method === "GET" && url.pathname === "/api/trades") {
+    const trades = getTrades(url);
+    return trades
+      ? sendJson(res, 200, trades)
+      : sendJson(res, 400, { error: "hash or tid is required" });
+  }
+
+  const blockMatch = url.pathname.match(/^\/api\/blocks\/(\d+)$/);
+  if (req.method === "GET" && blockMatch) {
+    const height = Number(blockMatch[1]);
+    return height > 0 && height <= latestHeight()
+      ? sendJson(res, 200, blockAt(height))
+      : sendJson(res, 404, { error: "block not found" });
+  }
+
+  const priceMatch = url.pathname.match(/^\/api\/prices\/([^/]+)$/);
+  if (req.method === "GET" && priceMatch) {
+    return sendJson(
+      res,
+      200,
+      getPrices(decodeURIComponent(priceMatch[1]), url)
+    );
+  }
+
+  if (req.method === "POST" && url.pathname === "/info") {
+    const info = getInfo(await readJson(req));
+    return info
+      ? sendJson(res, 200, info)
+      : sendJson(res, 400, { error: "unsupported info request" });
+  }
+
+  sendJson(res, 404, { error: "not found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock backend listening on http://localhost:${PORT}`);
+});
@@ -6,6 +6,7 @@ export interface HyperliquidTrade {
   time: number;
   hash: string;
   tid: number;
+  users?: [string, string]; // [buyer, seller]
 }
 
 export interface HyperliquidBlock {
@@ -15,18 +16,146 @@ export interface HyperliquidBlock {
   txCount: number;
 }
 
-export interface HyperliquidWebSocketMessage {
-  channel?: string;
-  data?: unknown;
-  [key: string]: unknown;
+export interface HyperliquidSubscription {
+  type: string;
+  [key: string]: string | number | boolean | undefined;
 }
 
+export interface HyperliquidSubscriptionResponse {
+  method: "subscribe" | "unsubscribe";
+  subscription: HyperliquidSubscription;
+}
+
+export interface HyperliquidL2Level {
+  px: string;
+  sz: string;
+  n: number; // Number of orders at this level
+}
+
+export interface HyperliquidL2Book {
+  coin: string;
+  levels: [HyperliquidL2Level[], HyperliquidL2Level[]]; // [bids, asks]
+  time: number;
+}
+
+// l2Book level as displayed, with the running size from the top of book
+export interface OrderBookLevel {
+  price: number; // Level price, grouped by the exchange
+  size: number;
+  total: number; // Cumulative size from the top of book
+  orders: number;
+}
+
+export interface OrderBookSnapshot {
+  coin: string;
+  time: number;
+  bids: OrderBookLevel[]; // Best (highest) first
+  asks: OrderBookLevel[]; // Best (lowest) first
+  spread: number | null;
+  spreadBps: number | null;
+  mid: number | null;
+}
+
+export interface HyperliquidCandle {
+  t: number; // Open time (ms)
+  T: number; // Close time (ms)
+  s: string; // Coin
+  i: string; // Interval
+  o: string;
+  c: string;
+  h: string;
+  l: string;
+  v: string; // Volume in base units
+  n: number; // Number of trades
+}
+
+export interface HyperliquidFill {
+  coin: string;
+  px: string;
+  sz: string;
+  side: "A" | "B";
+  time: number;
+  startPosition: string;
+  dir: string;
+  closedPnl: string;
+  hash: string;
+  oid: number;
+  crossed: boolean;
+  fee: string;
+  tid: number;
+  feeToken: string;
+  liquidation?: HyperliquidFillLiquidation; // Set on fills from a liquidation
+}
+
+export interface HyperliquidFillLiquidation {
+  liquidatedUser?: string;
+  markPx: number;
+  method: string; // "market" or "backstop"
+}
+
+export interface HyperliquidUserFills {
+  isSnapshot?: boolean;
+  user: string;
+  fills: HyperliquidFill[];
+}
+
+export interface HyperliquidUserFunding {
+  time: number;
+  coin: string;
+  usdc: string; // Payment, negative when the user paid
+  szi: string; // Signed position size
+  fundingRate: string;
+}
+
+export interface HyperliquidUserFundings {
+  isSnapshot?: boolean;
+  user: string;
+  fundings: HyperliquidUserFunding[];
+}
+
+// Perp asset context from metaAndAssetCtxs / activeAssetCtx; numbers are decimal strings
+export interface HyperliquidAssetCtx {
+  funding: string; // Hourly funding rate
+  openInterest: string; // In base units
+  prevDayPx: string;
+  dayNtlVlm: string; // 24h notional volume
+  markPx: string;
+  midPx: string | null;
+  oraclePx: string;
+}
+
+export interface HyperliquidActiveAssetCtx {
+  coin: string;
+  ctx: HyperliquidAssetCtx;
+}
+
+// Every frame we consume, discriminated by channel
+export type HyperliquidWebSocketMessage =
+  | { channel: "trades"; data: HyperliquidTrade[] }
+  | { channel: "allMids"; data: AllMidsData }
+  | { channel: "subscriptionResponse"; data: HyperliquidSubscriptionResponse }
+  | { channel: "error"; data: string }
+  | { channel: "pong" }
+  | { channel: "l2Book"; data: HyperliquidL2Book }
+  | { channel: "candle"; data: HyperliquidCandle }
+  | { channel: "userFills"; data: HyperliquidUserFills }
+  | { channel: "userFundings"; data: HyperliquidUserFundings }
+  | { channel: "activeAssetCtx"; data: HyperliquidActiveAssetCtx };
+
+export type HyperliquidChannel = HyperliquidWebSocketMessage["channel"];
+
 export interface CoinPrice {
   coin: string;
   price: number;
-  price24h: number;
+  price24h: number; // Exchange prevDayPx when known, else oldest local sample
+  baselineSource: "exchange" | "history"; // Where price24h came from
+  price24hAge: number | null; // ms since the local sample; null for the exchange baseline
   change: number;
   changePercent: number;
+  markPrice: number | null;
+  dayNotionalVolume: number | null;
+  funding: number | null; // Hourly rate
+  openInterest: number | null; // Notional, at mark
 }
 
 export interface PriceHistoryEntry {
@@ -50,8 +179,38 @@ export interface BackendPriceData {
 
 export interface PriceComparison {
   wsPrice: number; // WebSocket price
-  backendPrice: number | null; // Latest backend price (index 0)
+  backendPrice: number | null; // Backend sample nearest the comparison target
   priceDiff: number | null; // Difference between WS and backend
   priceDiffPercent: number | null;
-  durationFromLatest: number | null; // Duration in ms from now to oldest backend price's created_at
+  sampleTime: number | null; // created_at of the compared sample (ms)
+  sampleAge: number | null; // Duration in ms from the compared sample to now
+}
+
+export interface CoinTradeStats {
+  coin: string;
+  volume: number; // Notional in USD
+  trades: number;
+  vwap: number | null;
+  buyVolume: number; // Notional where the taker bought
+  sellVolume: number;
+  imbalance: number; // (buy - sell) / total, in [-1, 1]
+  largestTrade: HyperliquidTrade | null;
+}
+
+// Indexer health limits for one coin
+export interface DriftThresholds {
+  maxDeviationPercent: number; // |WS - backend| / backend, in %
+  maxStalenessMs: number; // Age of the newest backend sample
+}
+
+export type DriftKind = "deviation" | "staleness";
+
+export interface DriftIncident {
+  id: number;
+  coin: string;
+  kind: DriftKind;
+  threshold: number;
+  peak: number; // Worst observed value (% or ms, matching kind)
+  startedAt: number;
+  endedAt: number | null; // null while the breach is ongoing
 }